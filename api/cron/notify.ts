@@ -0,0 +1,72 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Posts the current period's notification straight from KV, at most once per period however
+// often it is called: scheduled and re-run GitHub Actions, manual runs, or Vercel Cron (GET)
+export default async (req: VercelRequest, res: VercelResponse) => {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed' });
+      return;
+    }
+
+    // The shared API token, or the CRON_SECRET Vercel Cron sends as a bearer token
+    const { isAuthorizedApiRequest } = await import('../../src/utils/apiAuth');
+    const cronSecret = (process.env.CRON_SECRET || '').trim();
+    if (!isAuthorizedApiRequest(req.headers.authorization) && !isAuthorizedApiRequest(req.headers.authorization, cronSecret)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const botToken = (process.env.SLACK_BOT_TOKEN || '').trim();
+    if (!botToken) {
+      throw new Error('Missing required Slack environment variables');
+    }
+
+    // Resolve the rotation (`?rotation=<id>`, defaulting to the registry's default)
+    const { resolveRotation } = await import('../../src/config');
+    const { rotationId, definition, defaultRotationId, rotations } = resolveRotation(req.query.rotation, process.env.SLACK_CHANNEL_ID || '');
+
+    if (!definition) {
+      res.status(404).json({ success: false, message: `Unknown rotation "${rotationId}"` });
+      return;
+    }
+
+    const { KVStorageService } = await import('../../src/services/KVStorageService');
+    const { RotationRegistry } = await import('../../src/services/RotationRegistry');
+    const { RotationScheduler } = await import('../../src/services/RotationScheduler');
+    const registry = new RotationRegistry(rotations, defaultRotationId, {
+      botToken,
+      timezone: (process.env.TIMEZONE || 'UTC').trim(),
+      createStore: definition => new KVStorageService(definition.id),
+    });
+    const context = registry.getContext(rotationId);
+
+    // Read-only, like the Slack handlers: the owner is worked out from KV without advancing it
+    const periodInfo = await new RotationScheduler(registry, { advanceRotation: false }).sendNotificationOnce(context);
+    const state = await context.store.loadRotationState();
+
+    if (periodInfo) {
+      console.log(`📤 Sent the ${rotationId} notification: ${state.lastNotification?.messageTs}`);
+      res.status(200).json({ success: true, sent: true, data: state.lastNotification, message: 'Notification sent' });
+      return;
+    }
+
+    // Nothing was posted; say why
+    const period = context.rotationService.getCurrentPeriod(state).startDate.toISOString().substring(0, 10);
+    const blackout = await context.rotationService.getCurrentBlackout();
+    const message = state.lastNotification?.period === period
+      ? `Already notified for the period starting ${period}`
+      : blackout
+        ? `No meeting this period${blackout.reason ? ` (${blackout.reason})` : ''}`
+        : 'Another run is sending the notification for this period';
+
+    res.status(200).json({ success: true, sent: false, data: state.lastNotification ?? null, message });
+
+  } catch (error) {
+    console.error('Error sending the rotation notification:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: (error as Error).message
+    });
+  }
+};
@@ -0,0 +1,53 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+
+export default async (req: VercelRequest, res: VercelResponse) => {
+  try {
+    // Only allow GET requests
+    if (req.method !== 'GET') {
+      res.status(405).json({ error: 'Method not allowed' });
+      return;
+    }
+
+    const { isAuthorizedApiRequest } = await import('../src/utils/apiAuth');
+    if (!isAuthorizedApiRequest(req.headers.authorization)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    // Resolve the rotation (`?rotation=<id>`, defaulting to the registry's default)
+    const { resolveRotation } = await import('../src/config');
+    const { rotationId, definition } = resolveRotation(req.query.rotation, process.env.SLACK_CHANNEL_ID || '');
+
+    if (!definition) {
+      res.status(404).json({ success: false, message: `Unknown rotation "${rotationId}"` });
+      return;
+    }
+
+    const { KVStorageService } = await import('../src/services/KVStorageService');
+    const { RotationService } = await import('../src/services/RotationService');
+    const rotationService = new RotationService(
+      new KVStorageService(rotationId),
+      (process.env.TIMEZONE || 'UTC').trim()
+    );
+
+    // `?q=search+words&limit=N`
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const articles = await rotationService.searchArticles(
+      req.query.q as string | undefined,
+      limit !== undefined && !isNaN(limit) ? limit : undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { rotationId, articles },
+      message: 'Articles retrieved from KV store'
+    });
+
+  } catch (error) {
+    console.error('Error getting articles:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: (error as Error).message
+    });
+  }
+};
@@ -0,0 +1,66 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Served as /api/rotation.ics (see vercel.json)
+export default async (req: VercelRequest, res: VercelResponse) => {
+  try {
+    // Only allow GET requests
+    if (req.method !== 'GET') {
+      res.status(405).json({ error: 'Method not allowed' });
+      return;
+    }
+
+    // Calendar apps can't send an Authorization header, so the feed takes `?token=`
+    const { isAuthorizedCalendarRequest } = await import('../src/utils/apiAuth');
+    if (!isAuthorizedCalendarRequest(req.query.token)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    // Resolve the rotation (`?rotation=<id>`, defaulting to the registry's default)
+    const { resolveRotation } = await import('../src/config');
+    const { rotationId, definition } = resolveRotation(req.query.rotation, process.env.SLACK_CHANNEL_ID || '');
+
+    if (!definition) {
+      res.status(404).json({ success: false, message: `Unknown rotation "${rotationId}"` });
+      return;
+    }
+
+    const { KVStorageService } = await import('../src/services/KVStorageService');
+    const { RotationService } = await import('../src/services/RotationService');
+    const { renderRotationCalendar } = await import('../src/utils/calendarFeed');
+    const store = new KVStorageService(rotationId);
+    const rotationService = new RotationService(store, (process.env.TIMEZONE || 'UTC').trim());
+
+    // `?periods=N` (default 12, max 52) and `?user=<Slack user ID>` for one person's turns
+    const periods = req.query.periods ? parseInt(req.query.periods as string, 10) : 12;
+    const state = await store.loadRotationState();
+    const schedule = await rotationService.getUpcomingRotation(isNaN(periods) ? 12 : Math.min(Math.max(periods, 1), 52));
+
+    // Show Slack names when the bot can look them up
+    let names: Map<string, string> | undefined;
+    if (process.env.SLACK_BOT_TOKEN) {
+      const { SlackService } = await import('../src/services/SlackService');
+      const slackService = new SlackService(process.env.SLACK_BOT_TOKEN.trim(), definition.slackChannelId, rotationId);
+      names = await slackService.getDisplayNames(schedule.map(item => item.user));
+    }
+
+    const calendar = renderRotationCalendar(schedule, {
+      rotationId,
+      rotationName: definition.name,
+      meeting: state.config.reminders?.meeting,
+      userId: req.query.user as string | undefined,
+      names,
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${rotationId}.ics"`);
+    res.status(200).send(calendar);
+
+  } catch (error) {
+    console.error('Error rendering rotation calendar:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: (error as Error).message
+    });
+  }
+};
@@ -2,33 +2,110 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 
 export default async (req: VercelRequest, res: VercelResponse) => {
   try {
-    // Only allow GET requests
-    if (req.method !== 'GET') {
+    if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'POST') {
       res.status(405).json({ error: 'Method not allowed' });
       return;
     }
 
+    // Every request needs the shared API token used by RemoteStorageService
+    const { isAuthorizedApiRequest } = await import('../src/utils/apiAuth');
+    if (!isAuthorizedApiRequest(req.headers.authorization)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    // Resolve the rotation (`?rotation=<id>`, defaulting to the registry's default)
+    const { resolveRotation } = await import('../src/config');
+    const { rotationId, definition } = resolveRotation(req.query.rotation, process.env.SLACK_CHANNEL_ID || '');
+
+    if (!definition) {
+      res.status(404).json({ success: false, message: `Unknown rotation "${rotationId}"` });
+      return;
+    }
+
     // Import KV storage service
     const { KVStorageService } = await import('../src/services/KVStorageService');
-    const kvStorageService = new KVStorageService();
+    const kvStorageService = new KVStorageService(rotationId);
+
+    if (req.method === 'GET' && req.query.view === 'history') {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const history = await kvStorageService.getHistory(
+        limit !== undefined && !isNaN(limit) ? limit : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: history,
+        message: 'Rotation history retrieved from KV store'
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && req.query.view === 'articles') {
+      res.status(200).json({
+        success: true,
+        data: await kvStorageService.getArticles(),
+        message: 'Articles retrieved from KV store'
+      });
+      return;
+    }
 
-    // Get current rotation state
-    const state = await kvStorageService.getRotationStateForAction();
+    if (req.method === 'GET') {
+      // Get current rotation state
+      const state = await kvStorageService.getRotationStateForAction();
 
+      // Return the rotation state
+      res.status(200).json({
+        success: true,
+        data: state,
+        message: 'Rotation state retrieved from KV store'
+      });
+      return;
+    }
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body || {};
+
+    if (req.method === 'POST' && body.article) {
+      await kvStorageService.saveArticle(body.article);
+      res.status(200).json({ success: true, message: 'Article saved to KV store' });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      if (!body.historyEntry) {
+        res.status(400).json({ success: false, message: 'Missing historyEntry' });
+        return;
+      }
 
+      await kvStorageService.appendHistory(body.historyEntry);
+      res.status(200).json({ success: true, message: 'History entry appended to KV store' });
+      return;
+    }
+
+    if (!body.state) {
+      res.status(400).json({ success: false, message: 'Missing state' });
+      return;
+    }
+
+    // PUT with `expected` is a compare-and-set; without it the state is overwritten
+    let applied = true;
+    if (body.expected) {
+      applied = await kvStorageService.compareAndSetRotationState(body.expected, body.state);
+    } else {
+      await kvStorageService.saveRotationState(body.state);
+    }
 
-    // Return the rotation state
     res.status(200).json({
       success: true,
-      data: state,
-      message: 'Rotation state retrieved from KV store'
+      applied,
+      message: applied ? 'Rotation state saved to KV store' : 'Rotation state changed concurrently'
     });
 
   } catch (error) {
-    console.error('Error getting rotation state:', error);
-    res.status(500).json({ 
+    console.error('Error handling rotation state request:', error);
+    res.status(500).json({
       error: 'Internal server error',
-      message: (error as Error).message 
+      message: (error as Error).message
     });
   }
-}; 
\ No newline at end of file
+};
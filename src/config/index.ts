@@ -1,32 +1,113 @@
 import * as dotenv from 'dotenv';
-import { AppConfig } from '../types';
+import { AppConfig, RotationDefinition } from '../types';
 import path from 'path';
+import rotationRegistry from './rotations.json';
 
 // Load environment variables
 dotenv.config();
 
+interface RotationRegistryFile {
+  defaultRotation: string;
+  rotations: Array<{
+    id: string;
+    name?: string;
+    slackChannelId?: string;
+    usersFile: string;
+    stateFile: string;
+    historyFile?: string;
+    articlesFile?: string;
+  }>;
+}
+
 export function getConfig(): AppConfig {
   const requiredVars = ['SLACK_BOT_TOKEN', 'SLACK_CHANNEL_ID'];
   const missing = requiredVars.filter(varName => !process.env[varName]);
-  
+
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
+  const { defaultRotationId, rotations } = getRotationDefinitions(process.env.SLACK_CHANNEL_ID!);
+
   return {
     slackBotToken: process.env.SLACK_BOT_TOKEN!,
     slackChannelId: process.env.SLACK_CHANNEL_ID!,
     slackSigningSecret: process.env.SLACK_SIGNING_SECRET,
+    slackPreviousSigningSecret: process.env.SLACK_SIGNING_SECRET_PREVIOUS,
     timezone: process.env.TIMEZONE || 'UTC',
-    usersFilePath: path.join(__dirname, 'users.json'),
-    stateFilePath: path.join(__dirname, 'rotation-state.json'),
+    rotations,
+    defaultRotationId,
     enableInteractions: process.env.ENABLE_INTERACTIONS === 'true',
     serverPort: process.env.PORT ? parseInt(process.env.PORT, 10) : 3000,
   };
 }
 
+/**
+ * Load the rotation registry (rotations.json), falling back to the default
+ * Slack channel for rotations that don't name their own
+ */
+export function getRotationDefinitions(defaultChannelId: string): {
+  defaultRotationId: string;
+  rotations: RotationDefinition[];
+} {
+  const registry = rotationRegistry as RotationRegistryFile;
+
+  const rotations = registry.rotations.map(rotation => ({
+    id: rotation.id,
+    name: rotation.name,
+    slackChannelId: rotation.slackChannelId || defaultChannelId,
+    usersFilePath: path.join(__dirname, rotation.usersFile),
+    stateFilePath: path.join(__dirname, rotation.stateFile),
+    historyFilePath: path.join(__dirname, rotation.historyFile || `${rotation.id}-history.json`),
+    articlesFilePath: path.join(__dirname, rotation.articlesFile || `${rotation.id}-articles.json`),
+  }));
+
+  validateRotationDefinitions(rotations, registry.defaultRotation);
+
+  return { defaultRotationId: registry.defaultRotation, rotations };
+}
+
+/**
+ * Resolve the rotation an API request is for (`?rotation=<id>`, defaulting to the registry's
+ * default). Without a `definition` there is no such rotation, which the routes answer with a 404.
+ */
+export function resolveRotation(requestedId: string | string[] | undefined, defaultChannelId: string): {
+  rotationId: string;
+  definition?: RotationDefinition;
+  defaultRotationId: string;
+  rotations: RotationDefinition[];
+} {
+  const { defaultRotationId, rotations } = getRotationDefinitions(defaultChannelId);
+  const rotationId = (Array.isArray(requestedId) ? requestedId[0] : requestedId) || defaultRotationId;
+
+  return {
+    rotationId,
+    definition: rotations.find(rotation => rotation.id === rotationId),
+    defaultRotationId,
+    rotations,
+  };
+}
+
 export function validateConfig(config: AppConfig): void {
   if (!config.slackBotToken.startsWith('xoxb-')) {
     throw new Error('Invalid Slack bot token format. Expected token starting with "xoxb-"');
   }
-} 
\ No newline at end of file
+}
+
+function validateRotationDefinitions(rotations: RotationDefinition[], defaultRotationId: string): void {
+  const seen = new Set<string>();
+
+  rotations.forEach(rotation => {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(rotation.id)) {
+      throw new Error(`Invalid rotation ID "${rotation.id}": use lowercase letters, digits and dashes`);
+    }
+    if (seen.has(rotation.id)) {
+      throw new Error(`Duplicate rotation ID in rotations.json: ${rotation.id}`);
+    }
+    seen.add(rotation.id);
+  });
+
+  if (!seen.has(defaultRotationId)) {
+    throw new Error(`Default rotation "${defaultRotationId}" is not defined in rotations.json`);
+  }
+}
@@ -1,12 +1,19 @@
 #!/usr/bin/env node
 
+import fs from 'fs/promises';
 import { getConfig, validateConfig } from './config';
 import { StorageService } from './services/StorageService';
 import { SlackService } from './services/SlackService';
 import { RotationService } from './services/RotationService';
+import { RemoteStorageService } from './services/RemoteStorageService';
+import { RotationRegistry } from './services/RotationRegistry';
 import { SlackInteractionHandler } from './services/SlackInteractionHandler';
-import { getISOWeek, getRotationPeriod } from './utils/dateUtils';
-import { RotationState } from './types';
+import { RotationScheduler } from './services/RotationScheduler';
+import { formatDateRange } from './utils/dateUtils';
+import { parseIcsBlackouts } from './utils/blackouts';
+import { renderRotationCalendar } from './utils/calendarFeed';
+import { getRoleAssignments } from './utils/roles';
+import { RotationDefinition, RotationStore } from './types';
 
 interface AppOptions {
   dryRun?: boolean;
@@ -14,111 +21,70 @@ interface AppOptions {
   preview?: number;
   stats?: boolean;
   server?: boolean;
+  daemon?: boolean;
   useKV?: boolean;
-}
-
-/**
- * Service that can read rotation state from KV via API
- */
-class KVRemoteStorageService {
-  private apiUrl: string;
-  
-  constructor(apiUrl: string) {
-    this.apiUrl = apiUrl;
-  }
-  
-  async loadRotationState(): Promise<RotationState> {
-    try {
-  
-      
-      // Use built-in fetch or node-fetch fallback
-      let fetchFn: any = globalThis.fetch;
-      if (!fetchFn) {
-        const nodeFetch = await import('node-fetch');
-        fetchFn = nodeFetch.default;
-      }
-      
-      const response = await fetchFn(this.apiUrl);
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      if (!result.success || !result.data) {
-        throw new Error(`API response invalid: ${result.message || 'Unknown error'}`);
-      }
-      
-  
-      return result.data;
-    } catch (error) {
-      throw new Error(`Failed to load rotation state from KV API: ${(error as Error).message}`);
-    }
-  }
-  
-  // Implement other required methods as no-ops since GitHub Action only reads
-  async saveRotationState(): Promise<void> {
-    throw new Error('GitHub Action should not save state - use KV API instead');
-  }
-  
-  async updateRotationState(): Promise<void> {
-    throw new Error('GitHub Action should not update state - use Slack buttons instead');
-  }
-  
-  async getCurrentUser(): Promise<any> {
-    const state = await this.loadRotationState();
-    return state.users[state.currentIndex];
-  }
-  
-  async addUser(): Promise<void> {
-    throw new Error('GitHub Action should not modify users');
-  }
-  
-  async removeUser(): Promise<void> {
-    throw new Error('GitHub Action should not modify users');
-  }
+  rotationId?: string;
+  history?: number;
+  since?: string;
+  sendReminders?: boolean;
+  checkConfirmations?: boolean;
+  importBlackouts?: string;
+  exportIcs?: string;
+  periods?: number;
+  userId?: string;
 }
 
 class RotationNotifierApp {
   private config = getConfig();
-  private storageService: StorageService | KVRemoteStorageService;
+  private registry: RotationRegistry;
+  private definition: RotationDefinition;
+  private storageService: RotationStore;
   private slackService: SlackService;
   private rotationService: RotationService;
   private interactionHandler?: SlackInteractionHandler;
+  private scheduler: RotationScheduler;
 
-  constructor(useKV: boolean = false) {
+  constructor(useKV: boolean = false, rotationId?: string) {
     validateConfig(this.config);
     
-    if (useKV) {
-      // Use KV storage via API endpoint
-              const kvApiUrl = process.env.KV_API_URL || 'https://pan-eng-review-rotation-nqrqbz941-aris-villareals-projects.vercel.app/api/rotation-state';
+    this.registry = new RotationRegistry(this.config.rotations, this.config.defaultRotationId, {
+      botToken: this.config.slackBotToken,
+      timezone: this.config.timezone,
+      createStore: definition => {
+        if (useKV) {
+          // Use KV storage via API endpoint
+          const kvApiUrl = new URL(process.env.KV_API_URL || 'https://pan-eng-review-rotation-nqrqbz941-aris-villareals-projects.vercel.app/api/rotation-state');
+          kvApiUrl.searchParams.set('rotation', definition.id);
 
-      this.storageService = new KVRemoteStorageService(kvApiUrl);
-    } else {
-      // Use local file storage
+          return new RemoteStorageService(kvApiUrl.toString(), process.env.ROTATION_API_TOKEN);
+        }
 
-      this.storageService = new StorageService(
-        this.config.usersFilePath,
-        this.config.stateFilePath
-      );
-    }
-    
-    this.slackService = new SlackService(
-      this.config.slackBotToken,
-      this.config.slackChannelId
-    );
-    
-    this.rotationService = new RotationService(
-      this.storageService as any,
-      this.config.timezone
-    );
+        // Use local file storage
+        return new StorageService(
+          definition.usersFilePath,
+          definition.stateFilePath,
+          definition.historyFilePath,
+          definition.articlesFilePath
+        );
+      },
+    });
+
+    const context = this.registry.getContext(rotationId);
+    this.definition = context.definition;
+    this.storageService = context.store;
+    this.slackService = context.slackService;
+    this.rotationService = context.rotationService;
+
+    this.scheduler = new RotationScheduler(this.registry);
+
+    console.log(`🔁 Rotation: ${context.definition.name || context.definition.id}`);
 
     // Initialize interaction handler if signing secret is provided
     if (this.config.slackSigningSecret && this.config.enableInteractions) {
       this.interactionHandler = new SlackInteractionHandler(
-        this.config.slackSigningSecret,
+        [this.config.slackSigningSecret, this.config.slackPreviousSigningSecret || ''],
         this.config.slackBotToken,
-        this.slackService,
-        this.rotationService
+        this.registry
       );
     }
   }
@@ -131,6 +97,10 @@ class RotationNotifierApp {
     if (options.server) {
       return this.startServer();
     }
+    
+    if (options.daemon) {
+      return this.startDaemon();
+    }
 
     try {
       console.log('🚀 Starting Slack rotation notifier...');
@@ -153,39 +123,68 @@ class RotationNotifierApp {
         return;
       }
       
+      if (options.history) {
+        await this.showHistory(options.history, options.since);
+        return;
+      }
+      
+      if (options.sendReminders) {
+        await this.sendReminders();
+        return;
+      }
+      
+      if (options.checkConfirmations) {
+        await this.checkConfirmations();
+        return;
+      }
+      
+      if (options.importBlackouts) {
+        await this.importBlackouts(options.importBlackouts);
+        return;
+      }
+      
+      if (options.exportIcs) {
+        await this.exportCalendar(options.exportIcs, options.periods || 12, options.userId);
+        return;
+      }
+      
+      const blackout = await this.rotationService.getCurrentBlackout();
+      if (blackout) {
+        console.log(`🚫 No meeting this period${blackout.reason ? ` (${blackout.reason})` : ''} - no notification sent`);
+        return;
+      }
+      
       // Get current forum owner and rotation state
       // Use read-only method for KV to avoid auto-advancement in GitHub Actions
-      const currentUser = this.storageService instanceof KVRemoteStorageService 
+      const currentUser = this.storageService instanceof RemoteStorageService 
         ? await this.rotationService.getCurrentForumOwnerReadOnly()
         : await this.rotationService.getCurrentForumOwner();
       const rotationState = await this.storageService.loadRotationState();
-      const currentDate = new Date();
-      const periodInfo = getRotationPeriod(currentDate, rotationState.config);
+      const periodInfo = this.rotationService.getCurrentPeriod(rotationState);
       
       console.log(`📅 Current ${rotationState.config.frequency} period: ${periodInfo.periodNumber} (${periodInfo.year})`);
       console.log(`👤 Forum owner: ${currentUser.name || currentUser.id} (${currentUser.id})`);
       
+      const roles = getRoleAssignments(rotationState, currentUser, periodInfo);
+      roles.slice(1).forEach(({ role, user }) => console.log(`👥 ${role.name}: ${user.name || user.id} (${user.id})`));
+      
       if (options.dryRun) {
         console.log('🔍 Dry run mode - no message will be sent');
         console.log('Message preview:');
-        console.log(`Forum Owner Rotation - ${this.getPeriodDescription(rotationState.config)} ${periodInfo.startDate.toLocaleDateString()} - ${periodInfo.endDate.toLocaleDateString()}`);
+        console.log(`Forum Owner Rotation - ${this.getPeriodDescription(rotationState.config)} ${formatDateRange(periodInfo.startDate, periodInfo.endDate)}`);
         console.log(`${this.getOwnerDescription(rotationState.config)}: ${currentUser.name || currentUser.id}`);
+        roles.slice(1).forEach(({ role, user }) => console.log(`${role.name}: ${user.name || user.id}`));
         return;
       }
       
-      // Send notification
+      // Send notification, unless this period's went out already (from here, a scheduler or /api/cron/notify)
       console.log('📤 Sending Slack notification...');
-      const result = await this.slackService.sendRotationNotification(currentUser, periodInfo, rotationState.config);
-      
-      if (result.success) {
-        console.log('✅ Notification sent successfully!');
-        if (result.messageTs) {
-          console.log(`Message timestamp: ${result.messageTs}`);
-        }
-      } else {
-        console.error('❌ Failed to send notification:', result.error);
-        process.exit(1);
+      const sent = await this.scheduler.sendNotificationOnce(this.registry.getContext(this.definition.id));
+      if (!sent) {
+        console.log('📭 This period was already notified (or another run is sending it) - no notification sent');
+        return;
       }
+      console.log('✅ Notification sent successfully!');
       
     } catch (error) {
       console.error('💥 Application error:', (error as Error).message);
@@ -239,6 +238,34 @@ class RotationNotifierApp {
     }
   }
 
+  /**
+   * DM the current presenter if one of the configured reminders is due
+   */
+  private async sendReminders(): Promise<void> {
+    const reminder = await this.scheduler.sendDueReminder(this.registry.getContext(this.definition.id));
+    if (!reminder) {
+      console.log('⏰ No reminder due');
+      return;
+    }
+    
+    console.log(`✅ Sent the ${reminder.offset} reminder to ${reminder.user.name || reminder.user.id}`);
+  }
+
+  /**
+   * Hand the period to the next eligible user if the presenter missed the confirmation deadline
+   */
+  private async checkConfirmations(): Promise<void> {
+    const fallback = await this.scheduler.enforceConfirmationDeadline(this.registry.getContext(this.definition.id));
+    if (!fallback) {
+      console.log('👍 Nothing to do: presenter confirmed, or the deadline has not passed');
+      return;
+    }
+    
+    const { unconfirmedUser, newUser } = fallback;
+    console.log(`⏰ ${unconfirmedUser.name || unconfirmedUser.id} didn't confirm, offered the period to ${newUser.name || newUser.id}`);
+    console.log('✅ Rotation message updated');
+  }
+
   /**
    * Show rotation statistics
    */
@@ -246,16 +273,17 @@ class RotationNotifierApp {
     console.log('📊 Rotation Statistics:');
     
     const stats = await this.rotationService.getRotationStats();
-    const currentUser = this.storageService instanceof KVRemoteStorageService 
+    const currentUser = this.storageService instanceof RemoteStorageService 
       ? await this.rotationService.getCurrentForumOwnerReadOnly()
       : await this.rotationService.getCurrentForumOwner();
     
-    console.log(`Total users: ${stats.totalUsers}`);
+    console.log(`Total users: ${stats.totalUsers} (${stats.activeUsers} active this period)`);
     console.log(`Current user: ${currentUser.name || currentUser.id} (index ${stats.currentUserIndex})`);
+    stats.roles.slice(1).forEach(role => console.log(`${role.name}: ${role.userId}`));
     console.log(`Periods since start: ${stats.periodsSinceStart}`);
     console.log(`Rotation frequency: ${stats.rotationFrequency}`);
     console.log(`Full rotations completed: ${stats.rotationsCompleted}`);
-    console.log(`Last rotation: ${new Date(stats.lastRotationDate).toLocaleDateString()}`);
+    console.log(`Last rotation: ${new Date(stats.lastRotationDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}`);
   }
 
   /**
@@ -266,9 +294,78 @@ class RotationNotifierApp {
     
     const schedule = await this.rotationService.getUpcomingRotation(periods);
     
-    schedule.forEach(({ user, periodInfo, periodNumber }) => {
-      const dateRange = `${periodInfo.startDate.toLocaleDateString()} - ${periodInfo.endDate.toLocaleDateString()}`;
-      console.log(`Period ${periodNumber}: ${user.name || user.id} (${dateRange})`);
+    schedule.forEach(({ user, periodInfo, periodNumber, blackout, roles }) => {
+      const dateRange = formatDateRange(periodInfo.startDate, periodInfo.endDate);
+      if (blackout) {
+        console.log(`Period ${periodNumber}: no meeting${blackout.reason ? ` - ${blackout.reason}` : ''} (${dateRange})`);
+      } else if (roles) {
+        console.log(`Period ${periodNumber}: ${roles.map(({ role, user }) => `${role.name} ${user.name || user.id}`).join(', ')} (${dateRange})`);
+      } else {
+        console.log(`Period ${periodNumber}: ${user.name || user.id} (${dateRange})`);
+      }
+    });
+  }
+
+  /**
+   * Write the upcoming schedule to an iCalendar file, optionally only one user's turns
+   */
+  private async exportCalendar(filePath: string, periods: number, userId?: string): Promise<void> {
+    console.log(`📆 Exporting the next ${periods} periods${userId ? ` for ${userId}` : ''} to ${filePath}...`);
+    
+    const state = await this.storageService.loadRotationState();
+    const schedule = await this.rotationService.getUpcomingRotation(periods);
+    const calendar = renderRotationCalendar(schedule, {
+      rotationId: this.definition.id,
+      rotationName: this.definition.name,
+      meeting: state.config.reminders?.meeting,
+      userId,
+      names: await this.slackService.getDisplayNames(schedule.map(item => item.user)),
+    });
+    
+    await fs.writeFile(filePath, calendar, 'utf-8');
+    console.log(`✅ Wrote ${filePath}`);
+  }
+
+  /**
+   * Add the events of an iCalendar file to the rotation's blackout dates
+   */
+  private async importBlackouts(filePath: string): Promise<void> {
+    console.log(`📆 Importing blackout dates from ${filePath}...`);
+    
+    const ranges = parseIcsBlackouts(await fs.readFile(filePath, 'utf-8'));
+    if (ranges.length === 0) {
+      throw new Error(`No events found in ${filePath}`);
+    }
+    
+    const added = await this.rotationService.addBlackouts(ranges);
+    ranges.forEach(range => console.log(`  ${range.start}${range.end === range.start ? '' : ` – ${range.end}`}: ${range.reason || 'No meeting'}`));
+    console.log(`✅ Added ${added} new blackout range(s) (${ranges.length - added} already listed)`);
+  }
+
+  /**
+   * Show who presented each period and the most recent rotation changes
+   */
+  private async showHistory(limit: number, since?: string): Promise<void> {
+    console.log(`📜 Rotation history${since ? ` since ${since}` : ''}:`);
+    
+    const summary = await this.rotationService.getPresenterSummary({ since, limit });
+    const entries = await this.rotationService.getRotationHistory({ since, limit });
+    
+    if (summary.length === 0) {
+      console.log('No history recorded yet');
+      return;
+    }
+    
+    console.log('\nPresenters by period:');
+    summary.forEach(({ period, assignedUserId, presenterId }) => {
+      const note = presenterId === assignedUserId ? '' : ` (assigned ${assignedUserId})`;
+      console.log(`  ${period}: ${presenterId}${note}`);
+    });
+    
+    console.log('\nRecent changes:');
+    entries.forEach(entry => {
+      const actor = entry.actorId ? ` by ${entry.actorId}` : '';
+      console.log(`  ${entry.timestamp} [${entry.period}] ${entry.action}: ${entry.assignedUserId} → ${entry.presenterId}${actor}`);
     });
   }
 
@@ -287,6 +384,8 @@ class RotationNotifierApp {
         return 'Month of';
       case 'custom':
         return `${config.interval}-day period of`;
+      case 'rrule':
+        return 'Session of';
       default:
         return 'Period of';
     }
@@ -305,10 +404,12 @@ class RotationNotifierApp {
     console.log('💡 Use Ctrl+C to stop the server');
     
     await this.interactionHandler.start(this.config.serverPort);
+    await this.scheduler.start();
     
     // Keep the process running
     process.on('SIGINT', async () => {
       console.log('\n🛑 Gracefully shutting down...');
+      await this.scheduler.stop();
       if (this.interactionHandler) {
         await this.interactionHandler.stop();
       }
@@ -316,6 +417,25 @@ class RotationNotifierApp {
     });
   }
 
+  /**
+   * Run the scheduler on its own, without the interaction server
+   */
+  private async startDaemon(): Promise<void> {
+    console.log('🚀 Starting rotation scheduler...');
+    console.log('💡 Use Ctrl+C to stop the scheduler');
+    
+    await this.validateSetup();
+    await this.scheduler.start();
+    
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, async () => {
+        console.log('\n🛑 Gracefully shutting down...');
+        await this.scheduler.stop();
+        process.exit(0);
+      });
+    }
+  }
+
   /**
    * Get owner description for console output
    */
@@ -330,6 +450,7 @@ class RotationNotifierApp {
       case 'monthly':
         return "This month's forum owner";
       case 'custom':
+      case 'rrule':
         return "This period's forum owner";
       default:
         return "Current forum owner";
@@ -359,11 +480,36 @@ async function main(): Promise<void> {
       case '--server':
         options.server = true;
         break;
+      case '--daemon':
+        options.daemon = true;
+        break;
       case '--use-kv':
         options.useKV = true;
         break;
+      case '--send-reminders':
+        options.sendReminders = true;
+        break;
+      case '--check-confirmations':
+        options.checkConfirmations = true;
+        break;
       default:
-        if (arg.startsWith('--preview=')) {
+        if (arg === '--history' || arg.startsWith('--history=')) {
+          const limit = parseInt(arg.split('=')[1] || '20', 10);
+          options.history = isNaN(limit) ? 20 : limit;
+        } else if (arg.startsWith('--since=')) {
+          options.since = arg.split('=')[1];
+        } else if (arg === '--export-ics' || arg.startsWith('--export-ics=')) {
+          options.exportIcs = arg.split('=')[1] || 'rotation.ics';
+        } else if (arg.startsWith('--periods=')) {
+          const periods = parseInt(arg.split('=')[1] || '12', 10);
+          options.periods = isNaN(periods) ? 12 : Math.min(Math.max(periods, 1), 52);
+        } else if (arg.startsWith('--user=')) {
+          options.userId = arg.split('=')[1];
+        } else if (arg.startsWith('--import-blackouts=')) {
+          options.importBlackouts = arg.substring('--import-blackouts='.length);
+        } else if (arg.startsWith('--rotation=')) {
+          options.rotationId = arg.split('=')[1];
+        } else if (arg.startsWith('--preview=')) {
           const weeks = parseInt(arg.split('=')[1] || '4', 10);
           options.preview = isNaN(weeks) ? 4 : weeks;
         } else if (arg === '--help' || arg === '-h') {
@@ -374,9 +520,20 @@ Options:
   --dry-run       Run without sending Slack messages
   --test          Test Slack connection only
   --stats         Show rotation statistics
-  --server        Start interactive server for button handling
+  --server        Start interactive server for button handling (also runs the scheduler)
+  --daemon        Run the scheduler only: notifications, reminders and confirmation deadlines
+                  at each rotation's schedule.dayOfWeek/time in TIMEZONE
   --use-kv        Use KV storage (read from deployed API)
   --preview=N     Preview next N periods (default: 4)
+  --rotation=ID   Rotation to use (default: defaultRotation in rotations.json)
+  --history[=N]   Show who presented and the last N rotation changes (default: 20)
+  --since=DATE    Limit --history to periods starting on or after DATE (YYYY-MM-DD)
+  --send-reminders  DM the presenter if a configured reminder is due (run hourly)
+  --check-confirmations  Move on from a presenter who missed the confirmation deadline (run hourly)
+  --import-blackouts=FILE  Add the events of an .ics calendar as dates without a meeting
+  --export-ics[=FILE]  Write the upcoming schedule as an .ics calendar (default: rotation.ics)
+  --periods=N     Periods to include in --export-ics (default: 12, max 52)
+  --user=ID       Only include this user's turns in --export-ics
   --help, -h      Show this help message
 
 Examples:
@@ -384,14 +541,21 @@ Examples:
   npm start -- --dry-run      # Test run without sending messages
   npm start -- --test         # Test Slack connection
   npm start -- --server       # Start interactive server
+  npm start -- --daemon       # Self-host the schedule instead of GitHub Actions cron
   npm start -- --preview=6    # Preview next 6 periods
+  npm start -- --rotation=eng-review --use-kv  # Notify a specific rotation
+  npm start -- --history --since=2025-07-01    # Who presented this quarter
+  npm start -- --send-reminders --use-kv       # Send any due presenter reminder
+  npm start -- --check-confirmations --use-kv  # Enforce the confirmation deadline
+  npm start -- --import-blackouts=holidays.ics # Skip company holidays
+  npm start -- --export-ics=mine.ics --user=U123 --periods=26  # Your turns for six months
 `);
           process.exit(0);
         }
     }
   }
   
-  const app = new RotationNotifierApp(options.useKV);
+  const app = new RotationNotifierApp(options.useKV, options.rotationId);
   await app.run(options);
 }
 
@@ -0,0 +1,112 @@
+import { RotationState, RotationStore, RotationHistoryEntry, Article, User } from '../types';
+import { advanceAssignment, deleteUser, getCurrentOwner, insertUser } from '../utils/rotationEngine';
+
+/**
+ * Shared implementation of the RotationStore contract.
+ *
+ * Backends only provide the primitives (load, save, compare-and-set, history);
+ * every state mutation below goes through a version-checked compare-and-set so
+ * all backends behave the same way when two writers race.
+ */
+export abstract class BaseRotationStore implements RotationStore {
+  private static readonly MAX_MUTATION_ATTEMPTS = 5;
+
+  abstract loadRotationState(): Promise<RotationState>;
+  abstract saveRotationState(state: RotationState): Promise<void>;
+  abstract compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean>;
+  abstract appendHistory(entry: RotationHistoryEntry): Promise<void>;
+  abstract getHistory(limit?: number): Promise<RotationHistoryEntry[]>;
+  abstract saveArticle(article: Article): Promise<void>;
+  abstract getArticles(): Promise<Article[]>;
+
+  /**
+   * Update only the current index and last rotation date
+   */
+  async updateRotationState(currentIndex: number, lastRotationDate: string): Promise<void> {
+    await this.mutateRotationState(state => {
+      state.currentIndex = currentIndex;
+      state.lastRotationDate = lastRotationDate;
+    });
+  }
+
+  /**
+   * Get current user in rotation
+   */
+  async getCurrentUser(): Promise<User> {
+    return getCurrentOwner(await this.loadRotationState());
+  }
+
+  /**
+   * Manually advance to next user (for skip rotation). Like every date in the state,
+   * `lastRotationDate` is the rotation timezone's wall-clock time (getCurrentDateInTimezone).
+   */
+  async advanceToNextUser(lastRotationDate: string): Promise<User> {
+    const state = await this.mutateRotationState(current => {
+      advanceAssignment(current);
+      current.lastRotationDate = lastRotationDate;
+    });
+
+    return getCurrentOwner(state);
+  }
+
+  /**
+   * Add a new user to the rotation, placed according to the rotation's newcomer placement
+   */
+  async addUser(user: User): Promise<void> {
+    await this.mutateRotationState(state => {
+      insertUser(state, user);
+    });
+  }
+
+  /**
+   * Remove a user from the rotation
+   */
+  async removeUser(userId: string): Promise<void> {
+    await this.mutateRotationState(state => {
+      deleteUser(state, userId);
+    });
+  }
+
+  /**
+   * Replace the user list, keeping the current user current if they are still present
+   */
+  async updateUserList(users: User[]): Promise<void> {
+    if (users.length === 0) {
+      throw new Error('Cannot replace rotation with an empty user list');
+    }
+
+    await this.mutateRotationState(state => {
+      const currentUserId = state.users[state.currentIndex]?.id;
+      const newIndex = currentUserId ? users.findIndex(user => user.id === currentUserId) : -1;
+
+      state.users = users;
+      state.currentIndex = newIndex >= 0 ? newIndex : 0;
+    });
+  }
+
+  /**
+   * Load the state, apply `mutate` to a copy and write it back with compare-and-set.
+   * On a conflict the mutation is re-applied to the fresh state, so `mutate` must only
+   * depend on the state it is given. Returning `false` from `mutate` skips the write.
+   */
+  async mutateRotationState(mutate: (state: RotationState) => boolean | void): Promise<RotationState> {
+    for (let attempt = 1; attempt <= BaseRotationStore.MAX_MUTATION_ATTEMPTS; attempt++) {
+      const expected = await this.loadRotationState();
+      const next = structuredClone(expected);
+
+      if (mutate(next) === false) {
+        return expected;
+      }
+      next.version = (expected.version || 0) + 1;
+
+      if (await this.compareAndSetRotationState(expected, next)) {
+        return next;
+      }
+
+      // Another writer got there first: back off with jitter before retrying
+      await new Promise(resolve => setTimeout(resolve, attempt * 25 + Math.random() * 25));
+    }
+
+    throw new Error('Rotation state was modified concurrently, please try again');
+  }
+}
@@ -0,0 +1,22 @@
+import { kv } from '@vercel/kv';
+import { MAX_REQUEST_AGE_SECONDS } from '../utils/slackSignature';
+
+/**
+ * Remembers the signatures of verified Slack requests in Vercel KV until they are too old to verify,
+ * so every serverless instance rejects a request another one already accepted
+ */
+export class KVSlackReplayCache {
+  private static readonly KEY_PREFIX = 'slack-request-signature:';
+
+  /**
+   * Record a verified request, returning false if its signature was already seen
+   */
+  async checkAndRecord(signature: string): Promise<boolean> {
+    // SET NX only succeeds for the first request with this signature
+    const result = await kv.set(`${KVSlackReplayCache.KEY_PREFIX}${signature}`, 1, {
+      nx: true,
+      ex: MAX_REQUEST_AGE_SECONDS,
+    });
+    return result !== null;
+  }
+}
@@ -1,21 +1,59 @@
 import { kv } from '@vercel/kv';
-import { User, RotationState } from '../types';
+import { RotationState, RotationHistoryEntry, Article } from '../types';
+import { BaseRotationStore } from './BaseRotationStore';
+
+/**
+ * Atomically replaces the state only if the stored version still matches the expected version
+ * (a missing key or version counts as version 0)
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local currentVersion = 0
+if current then
+  currentVersion = tonumber(cjson.decode(current).version) or 0
+end
+if currentVersion ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1
+`;
+
+export class KVStorageService extends BaseRotationStore {
+  // The original single rotation; its keys (`staff-doc-rotation-*`) predate multi-rotation support
+  private static readonly DEFAULT_ROTATION_ID = 'staff-doc';
+
+  private rotationId: string;
+  private rotationStateKey: string;
+  private rotationHistoryKey: string;
+  private rotationArticlesKey: string;
+
+  constructor(rotationId: string = KVStorageService.DEFAULT_ROTATION_ID) {
+    super();
+    this.rotationId = rotationId;
+    this.rotationStateKey = `${rotationId}-rotation-state`;
+    this.rotationHistoryKey = `${rotationId}-rotation-history`;
+    this.rotationArticlesKey = `${rotationId}-rotation-articles`;
+  }
 
-export class KVStorageService {
-  private static readonly ROTATION_STATE_KEY = 'staff-doc-rotation-state';
-  
   /**
    * Load rotation state from Vercel KV, fallback to embedded default if not found
    */
   async loadRotationState(): Promise<RotationState> {
     try {
       // Try to get from KV first
-      const kvState = await kv.get<RotationState>(KVStorageService.ROTATION_STATE_KEY);
+      const kvState = await kv.get<RotationState>(this.rotationStateKey);
       
       if (kvState) {
         return kvState;
       }
 
+      if (this.rotationId !== KVStorageService.DEFAULT_ROTATION_ID) {
+        throw new Error(
+          `No state found for rotation "${this.rotationId}"; seed it with PUT /api/rotation-state?rotation=${this.rotationId}`
+        );
+      }
+
       // Fallback: use embedded default state for staff documentation rotation
       const today = new Date().toISOString().split('T')[0] || new Date().toISOString().substring(0, 10);
       const defaultState: RotationState = {
@@ -54,63 +92,76 @@ export class KVStorageService {
    */
   async saveRotationState(state: RotationState): Promise<void> {
     try {
-      await kv.set(KVStorageService.ROTATION_STATE_KEY, state);
+      await kv.set(this.rotationStateKey, state);
     } catch (error) {
       throw new Error(`Failed to save rotation state: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Update only the current index and last rotation date
+   * Save rotation state only if KV still holds the expected version
    */
-  async updateRotationState(currentIndex: number, lastRotationDate: string): Promise<void> {
-    const state = await this.loadRotationState();
-    state.currentIndex = currentIndex;
-    state.lastRotationDate = lastRotationDate;
-    await this.saveRotationState(state);
+  async compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean> {
+    try {
+      const result = await kv.eval<[string, string], number>(
+        COMPARE_AND_SET_SCRIPT,
+        [this.rotationStateKey],
+        [String(expected.version || 0), JSON.stringify(next)]
+      );
+      return result === 1;
+    } catch (error) {
+      throw new Error(`Failed to save rotation state: ${(error as Error).message}`);
+    }
   }
 
   /**
-   * Get the current user based on rotation state
+   * Append an entry to the history list in KV
    */
-  async getCurrentUser(): Promise<User> {
-    const state = await this.loadRotationState();
-    
-    if (state.users.length === 0) {
-      throw new Error('No users in staff documentation rotation');
+  async appendHistory(entry: RotationHistoryEntry): Promise<void> {
+    try {
+      await kv.rpush(this.rotationHistoryKey, entry);
+    } catch (error) {
+      throw new Error(`Failed to append rotation history: ${(error as Error).message}`);
     }
-    
-    const currentUser = state.users[state.currentIndex];
-    if (!currentUser) {
-      throw new Error(`Invalid current index: ${state.currentIndex}`);
+  }
+
+  /**
+   * Get rotation history, oldest first (optionally only the most recent `limit` entries)
+   */
+  async getHistory(limit?: number): Promise<RotationHistoryEntry[]> {
+    if (limit !== undefined && limit <= 0) {
+      return [];
+    }
+
+    try {
+      const start = limit === undefined ? 0 : -limit;
+      return await kv.lrange<RotationHistoryEntry>(this.rotationHistoryKey, start, -1);
+    } catch (error) {
+      throw new Error(`Failed to load rotation history: ${(error as Error).message}`);
     }
-    
-    return currentUser;
   }
 
   /**
-   * Manually advance to next user (for skip rotation)
+   * Save the period's article in the articles hash (keyed by period), replacing any earlier submission
    */
-  async advanceToNextUser(): Promise<User> {
-    const state = await this.loadRotationState();
-    
-    if (state.users.length === 0) {
-      throw new Error('No users in staff documentation rotation');
+  async saveArticle(article: Article): Promise<void> {
+    try {
+      await kv.hset(this.rotationArticlesKey, { [article.period]: article });
+    } catch (error) {
+      throw new Error(`Failed to save article: ${(error as Error).message}`);
     }
-    
-    // Calculate next index with wraparound
-    const nextIndex = (state.currentIndex + 1) % state.users.length;
-    const nextUser = state.users[nextIndex];
-    
-    if (!nextUser) {
-      throw new Error(`Invalid next index: ${nextIndex}`);
+  }
+
+  /**
+   * Get every saved article, oldest period first
+   */
+  async getArticles(): Promise<Article[]> {
+    try {
+      const articles = await kv.hgetall<Record<string, Article>>(this.rotationArticlesKey);
+      return Object.values(articles || {}).sort((a, b) => a.period.localeCompare(b.period));
+    } catch (error) {
+      throw new Error(`Failed to load articles: ${(error as Error).message}`);
     }
-    
-    // Update state in KV
-    await this.updateRotationState(nextIndex, new Date().toISOString());
-    
-    console.log(`Staff documentation rotation advanced: ${state.users[state.currentIndex]?.id} → ${nextUser.id}`);
-    return nextUser;
   }
 
   /**
@@ -141,28 +192,4 @@ export class KVStorageService {
       daysActive
     };
   }
-
-  /**
-   * Update user list (for manual management)
-   */
-  async updateUserList(users: User[]): Promise<void> {
-    const state = await this.loadRotationState();
-    
-    // Preserve current rotation state if possible
-    let newCurrentIndex = 0;
-    const currentUserId = state.users[state.currentIndex]?.id;
-    
-    if (currentUserId) {
-      const newIndex = users.findIndex(user => user.id === currentUserId);
-      if (newIndex >= 0) {
-        newCurrentIndex = newIndex;
-      }
-    }
-    
-    state.users = users;
-    state.currentIndex = Math.min(newCurrentIndex, users.length - 1);
-    
-    await this.saveRotationState(state);
-    console.log(`Updated user list for staff documentation rotation: ${users.length} users`);
-  }
-}
\ No newline at end of file
+}
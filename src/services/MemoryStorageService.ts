@@ -0,0 +1,73 @@
+import { RotationState, RotationHistoryEntry, Article } from '../types';
+import { BaseRotationStore } from './BaseRotationStore';
+
+/**
+ * In-memory rotation store, used by tests and local experiments
+ */
+export class MemoryStorageService extends BaseRotationStore {
+  private state: RotationState;
+  private history: RotationHistoryEntry[];
+  private articles = new Map<string, Article>();
+
+  constructor(initialState: RotationState, initialHistory: RotationHistoryEntry[] = []) {
+    super();
+    this.state = structuredClone(initialState);
+    this.history = structuredClone(initialHistory);
+  }
+
+  /**
+   * Load a copy of the in-memory state
+   */
+  async loadRotationState(): Promise<RotationState> {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Replace the in-memory state
+   */
+  async saveRotationState(state: RotationState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+
+  /**
+   * Replace the in-memory state only if it still has the expected version
+   */
+  async compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean> {
+    if ((this.state.version || 0) !== (expected.version || 0)) {
+      return false;
+    }
+
+    this.state = structuredClone(next);
+    return true;
+  }
+
+  /**
+   * Append an entry to the in-memory history
+   */
+  async appendHistory(entry: RotationHistoryEntry): Promise<void> {
+    this.history.push(structuredClone(entry));
+  }
+
+  /**
+   * Get rotation history, oldest first (optionally only the most recent `limit` entries)
+   */
+  async getHistory(limit?: number): Promise<RotationHistoryEntry[]> {
+    const history =
+      limit === undefined ? this.history : this.history.slice(Math.max(this.history.length - limit, 0));
+    return structuredClone(history);
+  }
+
+  /**
+   * Save the period's article, replacing any earlier submission
+   */
+  async saveArticle(article: Article): Promise<void> {
+    this.articles.set(article.period, structuredClone(article));
+  }
+
+  /**
+   * Get every saved article, oldest period first
+   */
+  async getArticles(): Promise<Article[]> {
+    return structuredClone([...this.articles.values()].sort((a, b) => a.period.localeCompare(b.period)));
+  }
+}
@@ -0,0 +1,158 @@
+import { RotationState, RotationHistoryEntry, Article } from '../types';
+import { BaseRotationStore } from './BaseRotationStore';
+
+interface RotationApiResponse<T> {
+  success: boolean;
+  data?: T;
+  applied?: boolean;
+  message?: string;
+}
+
+/**
+ * Rotation store backed by the deployed `/api/rotation-state` endpoint (KV behind it).
+ * Used by GitHub Actions, which cannot reach KV directly.
+ */
+export class RemoteStorageService extends BaseRotationStore {
+  private apiUrl: string;
+  private apiToken?: string;
+
+  constructor(apiUrl: string, apiToken?: string) {
+    super();
+    this.apiUrl = apiUrl;
+    this.apiToken = apiToken;
+  }
+
+  /**
+   * Load rotation state from the API
+   */
+  async loadRotationState(): Promise<RotationState> {
+    try {
+      const result = await this.request<RotationState>('GET', this.apiUrl);
+      if (!result.data) {
+        throw new Error(`API response invalid: ${result.message || 'Unknown error'}`);
+      }
+
+      return result.data;
+    } catch (error) {
+      throw new Error(`Failed to load rotation state from KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Save rotation state through the API
+   */
+  async saveRotationState(state: RotationState): Promise<void> {
+    try {
+      await this.request('PUT', this.apiUrl, { state });
+    } catch (error) {
+      throw new Error(`Failed to save rotation state via KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Save rotation state through the API only if the stored state still matches
+   */
+  async compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean> {
+    try {
+      const result = await this.request('PUT', this.apiUrl, { state: next, expected });
+      return result.applied === true;
+    } catch (error) {
+      throw new Error(`Failed to save rotation state via KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Append a history entry through the API
+   */
+  async appendHistory(entry: RotationHistoryEntry): Promise<void> {
+    try {
+      await this.request('POST', this.apiUrl, { historyEntry: entry });
+    } catch (error) {
+      throw new Error(`Failed to append rotation history via KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Load rotation history from the API
+   */
+  async getHistory(limit?: number): Promise<RotationHistoryEntry[]> {
+    const url = new URL(this.apiUrl);
+    url.searchParams.set('view', 'history');
+    if (limit !== undefined) {
+      url.searchParams.set('limit', String(limit));
+    }
+
+    try {
+      const result = await this.request<RotationHistoryEntry[]>('GET', url.toString());
+      return result.data || [];
+    } catch (error) {
+      throw new Error(`Failed to load rotation history from KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Save an article through the API
+   */
+  async saveArticle(article: Article): Promise<void> {
+    try {
+      await this.request('POST', this.apiUrl, { article });
+    } catch (error) {
+      throw new Error(`Failed to save article via KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Load every saved article from the API
+   */
+  async getArticles(): Promise<Article[]> {
+    const url = new URL(this.apiUrl);
+    url.searchParams.set('view', 'articles');
+
+    try {
+      const result = await this.request<Article[]>('GET', url.toString());
+      return result.data || [];
+    } catch (error) {
+      throw new Error(`Failed to load articles from KV API: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Call the rotation API and unwrap its `{ success, data }` envelope
+   */
+  private async request<T>(
+    method: 'GET' | 'PUT' | 'POST',
+    url: string,
+    body?: unknown
+  ): Promise<RotationApiResponse<T>> {
+    // Use built-in fetch or node-fetch fallback
+    let fetchFn: any = globalThis.fetch;
+    if (!fetchFn) {
+      const nodeFetch = await import('node-fetch');
+      fetchFn = nodeFetch.default;
+    }
+
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.apiToken) {
+      headers['Authorization'] = `Bearer ${this.apiToken}`;
+    }
+
+    const response = await fetchFn(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as RotationApiResponse<T>;
+    if (!result.success) {
+      throw new Error(`API response invalid: ${result.message || 'Unknown error'}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,217 @@
+import { CommandResponse, RotationPermission, SlashCommandInput } from '../types';
+import { RotationContext, RotationRegistry } from './RotationRegistry';
+
+const SUBCOMMANDS = ['who', 'schedule', 'skip', 'swap', 'set', 'add', 'remove', 'away', 'blackout', 'history', 'articles', 'help'];
+
+// Permission each rotation-changing subcommand requires (`away` for someone else needs editUsers)
+const SUBCOMMAND_PERMISSIONS: Record<string, RotationPermission> = {
+  skip: 'skip',
+  swap: 'swap',
+  set: 'set',
+  add: 'editUsers',
+  remove: 'editUsers',
+  away: 'editUsers',
+  blackout: 'editSchedule',
+};
+
+const USAGE = [
+  '*Usage:* `/rotation [rotation-id] <command>`',
+  '• `who` — who is presenting this period',
+  '• `schedule [n]` — the next n periods (default 4)',
+  '• `skip [role]` — skip the current presenter, or whoever fills a role (e.g. `skip note-taker`)',
+  '• `swap @a @b` — swap two people in the order',
+  '• `set @user` — make someone the current presenter',
+  '• `add @user [YYYY-MM-DD]` / `remove @user [YYYY-MM-DD]` — change who is in the rotation, now or from/after a date',
+  '• `away @user YYYY-MM-DD YYYY-MM-DD` — mark someone out of office',
+  '• `blackout YYYY-MM-DD [YYYY-MM-DD] [reason]` — no meeting on these dates; the presenter keeps their turn',
+  '• `history` — who presented recently',
+  '• `articles [search]` — articles shared by presenters, newest first',
+].join('\n');
+
+/**
+ * Implements the `/rotation` slash command for both the Bolt app and the Vercel function
+ */
+export class RotationCommandService {
+  private registry: RotationRegistry;
+
+  constructor(registry: RotationRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Run a `/rotation` command and build the response to send back to Slack
+   */
+  async execute(input: SlashCommandInput): Promise<CommandResponse> {
+    const args = input.text.trim().split(/\s+/).filter(Boolean);
+
+    // An optional leading rotation ID, otherwise the rotation that posts in this channel
+    let rotationId = this.registry.findRotationByChannel(input.channelId)?.id;
+    if (args[0] && !SUBCOMMANDS.includes(args[0]) && this.registry.hasRotation(args[0])) {
+      rotationId = args.shift();
+    }
+
+    const [subcommand = 'help', ...params] = args;
+
+    try {
+      return await this.runSubcommand(this.registry.getContext(rotationId), subcommand, params, input.userId);
+    } catch (error) {
+      return this.ephemeral(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Dispatch a subcommand against the selected rotation
+   */
+  private async runSubcommand(
+    context: RotationContext,
+    subcommand: string,
+    params: string[],
+    actorId: string
+  ): Promise<CommandResponse> {
+    const { rotationService, slackService } = context;
+
+    const permission = SUBCOMMAND_PERMISSIONS[subcommand];
+    const marksSelfAway = subcommand === 'away' && params[0] !== undefined && this.parseUser(params[0]) === actorId;
+    if (permission && !marksSelfAway) {
+      const roleId = subcommand === 'skip' ? params[0] : undefined;
+      const decision = await rotationService.checkPermission(permission, actorId, roleId);
+      if (!decision.allowed) {
+        return this.ephemeral(`🚫 ${decision.reason}`);
+      }
+    }
+
+    switch (subcommand) {
+      case 'who': {
+        const roles = await rotationService.getCurrentRoles();
+        if (roles.length > 0) {
+          return this.ephemeral(`📋 This period: ${roles.map(({ role, user }) => `${role.name} <@${user.id}>`).join(', ')}`);
+        }
+
+        const owner = await rotationService.getCurrentForumOwnerReadOnly();
+        return this.ephemeral(`📋 <@${owner.id}> is presenting this period.`);
+      }
+
+      case 'schedule': {
+        const periods = params[0] ? parseInt(params[0], 10) : 4;
+        if (isNaN(periods) || periods < 1 || periods > 12) {
+          throw new Error('The number of periods must be between 1 and 12');
+        }
+
+        const schedule = await rotationService.getUpcomingRotation(periods);
+        const { config } = await rotationService.getStorageService().loadRotationState();
+        const { blocks, fallbackText } = await slackService.formatScheduleMessage(schedule, config);
+        return { responseType: 'ephemeral', text: fallbackText, blocks };
+      }
+
+      case 'skip': {
+        const skip = params[0] ? await rotationService.skipRole(params[0], actorId) : await rotationService.skipCurrentUser(actorId);
+        return this.inChannel(slackService.formatSkipConfirmation(actorId, skip));
+      }
+
+      case 'swap': {
+        const first = this.parseUser(params[0]);
+        const second = this.parseUser(params[1]);
+        const owner = await rotationService.swapUsers(first, second, actorId);
+        return this.inChannel(`🔀 <@${actorId}> swapped <@${first}> and <@${second}>. <@${owner.id}> is presenting this period.`);
+      }
+
+      case 'set': {
+        const userId = this.parseUser(params[0]);
+        await rotationService.setCurrentUser(userId, actorId);
+        return this.inChannel(`🎯 <@${actorId}> made <@${userId}> the current presenter.`);
+      }
+
+      case 'add': {
+        const userId = this.parseUser(params[0]);
+        const startDate = params[1];
+        await rotationService.addUser(userId, startDate);
+        return this.inChannel(`➕ <@${actorId}> added <@${userId}> to the rotation${startDate ? `, presenting from ${startDate}` : ''}.`);
+      }
+
+      case 'remove': {
+        const userId = this.parseUser(params[0]);
+        const endDate = params[1];
+        if (endDate) {
+          // Keep them until the date so their remaining turns stay put
+          await rotationService.setUserEndDate(userId, endDate);
+          return this.inChannel(`➖ <@${actorId}> scheduled <@${userId}> to leave the rotation after ${endDate}.`);
+        }
+
+        await rotationService.removeUser(userId, actorId);
+        return this.inChannel(`➖ <@${actorId}> removed <@${userId}> from the rotation.`);
+      }
+
+      case 'away': {
+        const userId = this.parseUser(params[0]);
+        const [start, end] = params.slice(1);
+        if (!start || !end) {
+          throw new Error('Usage: `/rotation away @user YYYY-MM-DD YYYY-MM-DD`');
+        }
+
+        await rotationService.addUnavailability(userId, { start, end });
+        return this.inChannel(`🌴 <@${userId}> is out of office ${start} – ${end}; the rotation will pass over them and make up their turn.`);
+      }
+
+      case 'blackout': {
+        const [start, ...rest] = params;
+        if (!start) {
+          throw new Error('Usage: `/rotation blackout YYYY-MM-DD [YYYY-MM-DD] [reason]`');
+        }
+
+        const end = rest[0] && /^\d{4}-\d{2}-\d{2}$/.test(rest[0]) ? rest.shift()! : start;
+        const reason = rest.join(' ');
+        await rotationService.addBlackouts([{ start, end, ...(reason ? { reason } : {}) }]);
+
+        const dates = start === end ? start : `${start} – ${end}`;
+        return this.inChannel(`🚫 <@${actorId}> cancelled the meeting ${dates}${reason ? ` (${reason})` : ''}; whoever is due keeps their turn for the next one.`);
+      }
+
+      case 'history': {
+        const summary = await rotationService.getPresenterSummary({ limit: 12 });
+        const entries = await rotationService.getRotationHistory({ limit: 10 });
+        const { blocks, fallbackText } = slackService.formatHistoryMessage(summary, entries);
+        return { responseType: 'ephemeral', text: fallbackText, blocks };
+      }
+
+      case 'articles': {
+        const query = params.join(' ');
+        const articles = await rotationService.searchArticles(query, 15);
+        const { blocks, fallbackText } = slackService.formatArticlesMessage(articles, query || undefined);
+        return { responseType: 'ephemeral', text: fallbackText, blocks };
+      }
+
+      case 'help':
+        return this.ephemeral(USAGE);
+
+      default:
+        return this.ephemeral(`Unknown command "${subcommand}".\n${USAGE}`);
+    }
+  }
+
+  /**
+   * Read a Slack user ID from a `<@U123|name>` mention (or a bare ID)
+   */
+  private parseUser(param: string | undefined): string {
+    if (!param) {
+      throw new Error('Mention a user with @, e.g. `@jane`');
+    }
+
+    const mention = param.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/);
+    if (mention) {
+      return mention[1]!;
+    }
+    if (/^[UW][A-Z0-9]+$/.test(param)) {
+      return param;
+    }
+
+    throw new Error(`Couldn't read "${param}" as a user. Mention them with @ (the command needs "Escape channels, users, and links" enabled)`);
+  }
+
+  private ephemeral(text: string): CommandResponse {
+    return { responseType: 'ephemeral', text };
+  }
+
+  private inChannel(text: string): CommandResponse {
+    return { responseType: 'in_channel', text };
+  }
+}
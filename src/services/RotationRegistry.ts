@@ -0,0 +1,110 @@
+import { RotationDefinition, RotationStore } from '../types';
+import { RotationService } from './RotationService';
+import { SlackService } from './SlackService';
+
+/**
+ * Services bound to a single named rotation
+ */
+export interface RotationContext {
+  definition: RotationDefinition;
+  store: RotationStore;
+  rotationService: RotationService;
+  slackService: SlackService;
+}
+
+export interface RotationRegistryOptions {
+  botToken: string;
+  timezone: string;
+  createStore: (definition: RotationDefinition) => RotationStore;
+}
+
+/**
+ * Registry of every rotation in this deployment, keyed by rotation ID
+ */
+export class RotationRegistry {
+  private definitions: Map<string, RotationDefinition>;
+  private defaultRotationId: string;
+  private options: RotationRegistryOptions;
+  private contexts = new Map<string, RotationContext>();
+
+  constructor(
+    definitions: RotationDefinition[],
+    defaultRotationId: string,
+    options: RotationRegistryOptions
+  ) {
+    this.definitions = new Map(definitions.map(definition => [definition.id, definition]));
+    this.defaultRotationId = defaultRotationId;
+    this.options = options;
+
+    if (!this.definitions.has(defaultRotationId)) {
+      throw new Error(`Default rotation "${defaultRotationId}" is not registered`);
+    }
+  }
+
+  /**
+   * Get the ID of the rotation used when none is specified
+   */
+  getDefaultRotationId(): string {
+    return this.defaultRotationId;
+  }
+
+  /**
+   * Get all registered rotation IDs
+   */
+  getRotationIds(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Check whether a rotation ID is registered
+   */
+  hasRotation(rotationId: string): boolean {
+    return this.definitions.has(rotationId);
+  }
+
+  /**
+   * Get a rotation definition, defaulting to the default rotation
+   */
+  getDefinition(rotationId?: string): RotationDefinition {
+    const id = rotationId || this.defaultRotationId;
+    const definition = this.definitions.get(id);
+
+    if (!definition) {
+      throw new Error(`Unknown rotation "${id}". Known rotations: ${this.getRotationIds().join(', ')}`);
+    }
+
+    return definition;
+  }
+
+  /**
+   * Find the rotation that posts to a Slack channel, if exactly one does
+   */
+  findRotationByChannel(channelId: string): RotationDefinition | undefined {
+    const matches = [...this.definitions.values()].filter(
+      definition => definition.slackChannelId === channelId
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Get (and cache) the services for a rotation
+   */
+  getContext(rotationId?: string): RotationContext {
+    const definition = this.getDefinition(rotationId);
+    const cached = this.contexts.get(definition.id);
+    if (cached) {
+      return cached;
+    }
+
+    const store = this.options.createStore(definition);
+    const context: RotationContext = {
+      definition,
+      store,
+      rotationService: new RotationService(store, this.options.timezone),
+      slackService: new SlackService(this.options.botToken, definition.slackChannelId, definition.id),
+    };
+
+    this.contexts.set(definition.id, context);
+    return context;
+  }
+}
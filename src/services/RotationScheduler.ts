@@ -0,0 +1,189 @@
+import { ConfirmationFallback, DueReminder, PeriodInfo } from '../types';
+import { RemoteStorageService } from './RemoteStorageService';
+import { RotationContext, RotationRegistry } from './RotationRegistry';
+import { getRoleAssignments } from '../utils/roles';
+
+// How often the scheduler checks whether anything is due
+export const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Runs every rotation's jobs in-process for self-hosting (`--server`, `--daemon`) instead of cron:
+ * the channel notification at `schedule.dayOfWeek`/`time`, presenter reminders and the
+ * confirmation deadline, each in the rotation's timezone. What has been done is kept in the
+ * rotation state, so restarts repeat nothing and a notification missed while the process was
+ * down is sent when it starts. The one-off CLI commands run the same jobs.
+ */
+export class RotationScheduler {
+  private registry: RotationRegistry;
+  private advanceRotation: boolean;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  /**
+   * Without `advanceRotation` the owner is worked out from the state without saving the
+   * advance, as everything running against KV does
+   */
+  constructor(registry: RotationRegistry, options: { advanceRotation?: boolean } = {}) {
+    this.registry = registry;
+    this.advanceRotation = options.advanceRotation ?? true;
+  }
+
+  /**
+   * Run anything already due (catching up after downtime), then check every interval
+   */
+  async start(intervalMs: number = SCHEDULER_INTERVAL_MS): Promise<void> {
+    await this.tick();
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    console.log(`⏱️ Scheduler running for ${this.registry.getRotationIds().join(', ')}`);
+  }
+
+  /**
+   * Stop checking, after the check in progress (if any) finishes
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  /**
+   * Run the due jobs of every rotation once. A check still running from the previous interval
+   * is waited for instead of starting another.
+   */
+  async tick(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runDueJobs().finally(() => {
+        this.running = undefined;
+      });
+    }
+    await this.running;
+  }
+
+  /**
+   * Post the notification unless it was already posted (or is being posted) for the current
+   * period, returning the period if this call posted it
+   */
+  async sendNotificationOnce(context: RotationContext, options: { waitForSchedule?: boolean } = {}): Promise<PeriodInfo | undefined> {
+    const { rotationService, slackService } = context;
+    const periodInfo = await rotationService.claimNotification(options);
+    if (!periodInfo) {
+      return undefined;
+    }
+
+    // Only a failed post gives the claim back; once the message is out, a retry would duplicate it
+    let messageTs: string | undefined;
+    try {
+      messageTs = await this.postNotification(context);
+    } catch (error) {
+      await rotationService.releaseNotification(periodInfo);
+      throw error;
+    }
+
+    if (messageTs) {
+      try {
+        await rotationService.recordNotification(messageTs, slackService.getChannelId());
+      } catch (error) {
+        throw new Error(`Posted the notification (${messageTs}) but couldn't record it, so it stays claimed: ${(error as Error).message}`);
+      }
+    }
+    return periodInfo;
+  }
+
+  /**
+   * DM the current presenter the reminder that is due, if any
+   */
+  async sendDueReminder({ rotationService, slackService }: RotationContext): Promise<DueReminder | undefined> {
+    const reminder = await rotationService.claimDueReminder();
+    if (!reminder) {
+      return undefined;
+    }
+
+    const result = await slackService.sendReminderMessage(reminder);
+    if (!result.success) {
+      throw new Error(`Failed to send reminder: ${result.error}`);
+    }
+    return reminder;
+  }
+
+  /**
+   * Hand the period to the next eligible user if the presenter missed the confirmation
+   * deadline, updating the rotation message and announcing the change
+   */
+  async enforceConfirmationDeadline({ store, rotationService, slackService }: RotationContext): Promise<ConfirmationFallback | undefined> {
+    const fallback = await rotationService.enforceConfirmationDeadline();
+    if (!fallback) {
+      return undefined;
+    }
+
+    const { unconfirmedUser, newUser, notification } = fallback;
+    const state = await store.loadRotationState();
+    const periodInfo = rotationService.getCurrentPeriod(state);
+
+    const status = await rotationService.getNotificationStatus();
+    const updated = await slackService.updateMessage(notification.messageTs, newUser, periodInfo, state.config, status);
+    if (!updated.success) {
+      console.error('❌ Failed to update the rotation message:', updated.error);
+    }
+
+    const result = await slackService.sendPublicMessage(
+      `⏰ <@${unconfirmedUser.id}> didn't confirm in time, so <@${newUser.id}> is presenting this period. <@${newUser.id}>, please confirm on the message above.`
+    );
+    if (!result.success) {
+      throw new Error(`Failed to announce the new presenter: ${result.error}`);
+    }
+    return fallback;
+  }
+
+  /**
+   * Post the rotation's notification for the current period, returning its message timestamp
+   */
+  private async postNotification({ store, rotationService, slackService }: RotationContext): Promise<string | undefined> {
+    // Read-only against KV (directly or through the API), so the rotation is only advanced locally
+    const currentUser = !this.advanceRotation || store instanceof RemoteStorageService
+      ? await rotationService.getCurrentForumOwnerReadOnly()
+      : await rotationService.getCurrentForumOwner();
+    const state = await store.loadRotationState();
+    const periodInfo = rotationService.getCurrentPeriod(state);
+    const roles = getRoleAssignments(state, currentUser, periodInfo);
+
+    const result = await slackService.sendRotationNotification(currentUser, periodInfo, state.config, roles.length > 0 ? { roles } : {});
+    if (!result.success) {
+      throw new Error(`Failed to send notification: ${result.error}`);
+    }
+    return result.messageTs;
+  }
+
+  private async runDueJobs(): Promise<void> {
+    for (const rotationId of this.registry.getRotationIds()) {
+      const context = this.registry.getContext(rotationId);
+
+      // One failing job shouldn't hold up the others, or the other rotations
+      await this.runJob(rotationId, 'notification', async () => {
+        const periodInfo = await this.sendNotificationOnce(context, { waitForSchedule: true });
+        if (periodInfo) {
+          console.log(`📤 [${rotationId}] Sent the notification for the period starting ${periodInfo.startDate.toISOString().substring(0, 10)}`);
+        }
+      });
+      await this.runJob(rotationId, 'reminder', async () => {
+        const reminder = await this.sendDueReminder(context);
+        if (reminder) {
+          console.log(`⏰ [${rotationId}] Sent the ${reminder.offset} reminder to ${reminder.user.name || reminder.user.id}`);
+        }
+      });
+      await this.runJob(rotationId, 'confirmation', async () => {
+        const fallback = await this.enforceConfirmationDeadline(context);
+        if (fallback) {
+          console.log(`⏰ [${rotationId}] ${fallback.unconfirmedUser.id} didn't confirm, offered the period to ${fallback.newUser.id}`);
+        }
+      });
+    }
+  }
+
+  private async runJob(rotationId: string, job: string, run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`❌ [${rotationId}] Scheduled ${job} failed:`, (error as Error).message);
+    }
+  }
+}
@@ -1,12 +1,33 @@
-import { User, RotationState, PeriodInfo } from '../types';
-import { StorageService } from './StorageService';
-import { getISOWeek, getWeeksBetween, getCurrentDateInTimezone, isNewWeek, getRotationPeriod, getPeriodsBetween, isNewRotationPeriod } from '../utils/dateUtils';
+import { User, RotationState, RotationConfig, PeriodInfo, RotationStore, RotationHistoryEntry, HistoryFilter, PeriodPresenter, SkipMode, UnavailableRange, RotationPermission, PermissionDecision, SkipResult, DueReminder, PresenterConfirmation, ConfirmationFallback, Article, ArticleSubmission, NotificationStatus, BlackoutRange, ScheduledPeriod, RoleAssignment } from '../types';
+import { getCurrentDateInTimezone, getRotationPeriod, getPeriodsBetween, isNewRotationPeriod } from '../utils/dateUtils';
+import {
+  advanceAssignment,
+  assignCurrentOwner,
+  deleteUser,
+  getCurrentOwner,
+  getUpcomingOwners,
+  isUserActive,
+  isUserEligible,
+  passOverUnavailableOwner,
+  skipCurrentOwner,
+  swapUsers,
+} from '../utils/rotationEngine';
+import { checkPermission, isRotationAdmin } from '../utils/permissions';
+import { getArticleSubmissionError, searchArticles } from '../utils/articles';
+import { getBlackoutRangeError, getPeriodBlackout, mergeBlackouts } from '../utils/blackouts';
+import { getOrderingStrategy } from '../utils/ordering';
+import { getRoleAssignments, skipRoleUser } from '../utils/roles';
+import { hasProcessedKey, recordProcessedKey } from '../utils/idempotency';
+import { getDueReminderOffsets, getMeetingTime, getNotificationTime, getReminderKey, parseReminderOffset } from '../utils/reminders';
+
+// How long a claimed notification is left to its sender before it can be claimed again (if the sender died)
+export const NOTIFICATION_CLAIM_MS = 10 * 60 * 1000;
 
 export class RotationService {
-  private storageService: StorageService;
+  private storageService: RotationStore;
   private timezone: string;
 
-  constructor(storageService: StorageService, timezone: string = 'UTC') {
+  constructor(storageService: RotationStore, timezone: string = 'UTC') {
     this.storageService = storageService;
     this.timezone = timezone;
   }
@@ -14,10 +35,29 @@ export class RotationService {
   /**
    * Get the storage service instance
    */
-  getStorageService(): StorageService {
+  getStorageService(): RotationStore {
     return this.storageService;
   }
 
+  /**
+   * Check whether a Slack user may perform a rotation-changing action, optionally on one role
+   */
+  async checkPermission(permission: RotationPermission, actorId: string, roleId?: string): Promise<PermissionDecision> {
+    const state = await this.storageService.loadRotationState();
+    const role = roleId === undefined
+      ? undefined
+      : getRoleAssignments(state, getCurrentOwner(state), this.getCurrentPeriod(state)).find(assignment => assignment.role.id === roleId);
+    
+    return checkPermission(state, permission, actorId, role);
+  }
+
+  /**
+   * Get the rotation period that is current in the rotation's timezone
+   */
+  getCurrentPeriod(state: RotationState): PeriodInfo {
+    return getRotationPeriod(getCurrentDateInTimezone(this.timezone), state.config, state.startDate);
+  }
+
   /**
    * Get the current forum owner based on rotation logic
    */
@@ -25,15 +65,22 @@ export class RotationService {
     const state = await this.storageService.loadRotationState();
     const currentDate = getCurrentDateInTimezone(this.timezone);
     
+    // No meeting this period: the rotation waits for the next one
+    if (getPeriodBlackout(this.getCurrentPeriod(state), state.config)) {
+      return getCurrentOwner(state);
+    }
+    
     // Check if we need to advance the rotation
     if (this.shouldAdvanceRotation(state, currentDate)) {
-      await this.advanceRotation(state, currentDate);
-      // Reload state after advancement
-      const updatedState = await this.storageService.loadRotationState();
-      return this.getUserAtIndex(updatedState, updatedState.currentIndex);
+      return this.advanceRotation(currentDate, await this.getServedHistory(state));
     }
     
-    return this.getUserAtIndex(state, state.currentIndex);
+    // Pass over an owner who went out of office (or left the rotation) after being assigned
+    if (!isUserEligible(getCurrentOwner(state), getRotationPeriod(currentDate, state.config, state.startDate))) {
+      return this.passOverUnavailableOwner(currentDate);
+    }
+    
+    return getCurrentOwner(state);
   }
 
   /**
@@ -42,99 +89,648 @@ export class RotationService {
    */
   async getCurrentForumOwnerReadOnly(): Promise<User> {
     const state = await this.storageService.loadRotationState();
-    return this.getUserAtIndex(state, state.currentIndex);
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    
+    return (await this.getScheduledOwners(state, [getRotationPeriod(currentDate, state.config, state.startDate)]))[0]!;
   }
 
   /**
-   * Preview who will be the forum owner for a specific date
+   * Preview who will be the forum owner for a specific date,
+   * including deferred make-up turns and out-of-office users
    */
   async previewForumOwner(targetDate: Date): Promise<User> {
     const state = await this.storageService.loadRotationState();
-    const rotationStartDate = new Date(state.startDate);
-    const periodsSinceStart = getPeriodsBetween(rotationStartDate, targetDate, state.config);
-    const targetIndex = periodsSinceStart % state.users.length;
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    const periodsAhead = Math.max(getPeriodsBetween(currentDate, targetDate, state.config, state.startDate), 0);
+    const periods = this.getUpcomingPeriods(currentDate, state, periodsAhead + 1);
     
-    return this.getUserAtIndex(state, targetIndex);
+    return (await this.getScheduledOwners(state, periods))[periodsAhead]!;
   }
 
   /**
-   * Get rotation schedule for the next N periods
+   * Get rotation schedule for the next N periods; periods without a meeting carry their blackout,
+   * the others everyone's role when the rotation has roles
    */
-  async getUpcomingRotation(periodsAhead: number = 4): Promise<Array<{ user: User; periodInfo: PeriodInfo; periodNumber: number }>> {
+  async getUpcomingRotation(periodsAhead: number = 4): Promise<ScheduledPeriod[]> {
     const state = await this.storageService.loadRotationState();
     const currentDate = getCurrentDateInTimezone(this.timezone);
-    const schedule = [];
+    const periods = this.getUpcomingPeriods(currentDate, state, periodsAhead);
+    const owners = await this.getScheduledOwners(state, periods);
 
-    for (let i = 0; i < periodsAhead; i++) {
-      const targetDate = this.getNextPeriodDate(currentDate, state.config, i);
-      
-      const user = await this.previewForumOwner(targetDate);
-      const periodInfo = getRotationPeriod(targetDate, state.config);
-      
-      schedule.push({
+    return owners.map((user, i) => {
+      const blackout = getPeriodBlackout(periods[i]!, state.config);
+      const roles = blackout ? [] : getRoleAssignments(state, user, periods[i]!);
+      return {
         user,
-        periodInfo,
+        periodInfo: periods[i]!,
         periodNumber: i + 1,
-      });
+        ...(blackout ? { blackout } : {}),
+        ...(roles.length > 0 ? { roles } : {}),
+      };
+    });
+  }
+
+  /**
+   * Get who fills each role this period, the presenter first (empty when the rotation has no roles)
+   */
+  async getCurrentRoles(): Promise<RoleAssignment[]> {
+    const state = await this.storageService.loadRotationState();
+    return getRoleAssignments(state, getCurrentOwner(state), this.getCurrentPeriod(state));
+  }
+
+  /**
+   * Get the blackout cancelling this period's meeting, if any
+   */
+  async getCurrentBlackout(): Promise<BlackoutRange | undefined> {
+    const state = await this.storageService.loadRotationState();
+    return getPeriodBlackout(this.getCurrentPeriod(state), state.config);
+  }
+
+  /**
+   * Add dates without a meeting (inclusive, YYYY-MM-DD), returning how many were new
+   */
+  async addBlackouts(ranges: BlackoutRange[]): Promise<number> {
+    for (const range of ranges) {
+      const error = getBlackoutRangeError(range);
+      if (error) {
+        throw new Error(error);
+      }
     }
+    
+    let added = 0;
+    await this.storageService.mutateRotationState(current => {
+      const existing = current.config.blackouts || [];
+      current.config.blackouts = mergeBlackouts(existing, ranges);
+      added = current.config.blackouts.length - existing.length;
+      return added > 0;
+    });
+    
+    return added;
+  }
+
+  /**
+   * Simulate the owners of the given periods (the first being the current one), holding
+   * the rotation over periods without a meeting
+   */
+  private async getScheduledOwners(state: RotationState, periods: PeriodInfo[]): Promise<User[]> {
+    const lastServed = await this.getServedHistory(state);
+    
+    return getUpcomingOwners(lastServed ? { ...state, lastServed } : state, periods, {
+      cancelled: periods.map(periodInfo => getPeriodBlackout(periodInfo, state.config) !== undefined),
+      holdCurrentOwner: this.wasAssignedInBlackout(state),
+    });
+  }
+
+  /**
+   * Get the current period followed by the next `count - 1` periods
+   */
+  private getUpcomingPeriods(currentDate: Date, state: RotationState, count: number): PeriodInfo[] {
+    const periods: PeriodInfo[] = [];
+    let date = currentDate;
+
+    for (let i = 0; i < count; i++) {
+      periods.push(getRotationPeriod(date, state.config, state.startDate));
+      date = this.getNextPeriodDate(date, state);
+    }
+
+    return periods;
+  }
+
+  /**
+   * Get the start of the period after the one containing `currentDate`
+   */
+  private getNextPeriodDate(currentDate: Date, state: RotationState): Date {
+    return new Date(getRotationPeriod(currentDate, state.config, state.startDate).endDate.getTime() + 1);
+  }
 
-    return schedule;
+  /**
+   * Manually advance rotation to next user
+   */
+  async advanceToNextUser(actorId?: string): Promise<User> {
+    const { newUser } = await this.skipCurrentUser(actorId);
+    return newUser;
   }
 
   /**
-   * Calculate the date for the next rotation period
+   * Skip the current owner according to the rotation's skip mode (advance, defer or swap).
+   * An `idempotencyKey` that was already applied makes this a no-op, so replayed
+   * Slack interactions don't skip twice.
    */
-  private getNextPeriodDate(currentDate: Date, config: any, periodsAhead: number): Date {
-    const targetDate = new Date(currentDate);
+  async skipCurrentUser(actorId?: string, idempotencyKey?: string): Promise<SkipResult> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let skippedUser: User | undefined;
+    let mode: SkipMode = 'advance';
+    let duplicate = false;
     
-    switch (config.frequency) {
-      case 'daily':
-        targetDate.setDate(currentDate.getDate() + periodsAhead);
-        break;
-      case 'weekly':
-        targetDate.setDate(currentDate.getDate() + (periodsAhead * 7));
-        break;
-      case 'bi-weekly':
-        targetDate.setDate(currentDate.getDate() + (periodsAhead * 14));
-        break;
-      case 'monthly':
-        targetDate.setMonth(currentDate.getMonth() + periodsAhead);
-        break;
-      case 'custom':
-        targetDate.setDate(currentDate.getDate() + (periodsAhead * (config.interval || 7)));
-        break;
+    const state = await this.storageService.mutateRotationState(current => {
+      mode = current.config.skipMode || 'advance';
+      skippedUser = getCurrentOwner(current);
+      duplicate = idempotencyKey !== undefined && hasProcessedKey(current, idempotencyKey);
+      
+      if (!duplicate) {
+        const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+        skipCurrentOwner(current, mode, periodInfo);
+        passOverUnavailableOwner(current, periodInfo);
+        current.lastRotationDate = currentDate.toISOString();
+        if (idempotencyKey) {
+          recordProcessedKey(current, idempotencyKey);
+        }
+      }
+      
+      // Nothing to write for a repeated interaction
+      return !duplicate;
+    });
+    
+    const newUser = getCurrentOwner(state);
+    if (duplicate) {
+      console.log(`Ignoring repeated skip ${idempotencyKey}`);
+      return { skippedUser: skippedUser!, newUser, mode, duplicate };
     }
     
-    return targetDate;
+    await this.recordHistory(state, currentDate, {
+      action: 'skip',
+      assignedUserId: skippedUser!.id,
+      presenterId: newUser.id,
+      actorId,
+    });
+    
+    console.log(`Rotation skipped (${mode}): ${skippedUser!.id} → ${newUser.id}`);
+    return { skippedUser: skippedUser!, newUser, mode, duplicate };
   }
 
   /**
-   * Manually advance rotation to next user
+   * Skip whoever fills a role this period, handing it to the next person in the role's order.
+   * Skipping the first role skips the presenter, as `skipCurrentUser` does.
    */
-  async advanceToNextUser(): Promise<User> {
+  async skipRole(roleId: string, actorId?: string, idempotencyKey?: string): Promise<SkipResult> {
     const state = await this.storageService.loadRotationState();
+    if (state.config.roles?.[0]?.id === roleId) {
+      return this.skipCurrentUser(actorId, idempotencyKey);
+    }
+    
     const currentDate = getCurrentDateInTimezone(this.timezone);
+    let skip: Omit<SkipResult, 'mode' | 'duplicate'> | undefined;
+    let duplicate = false;
+    
+    const updated = await this.storageService.mutateRotationState(current => {
+      const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+      duplicate = idempotencyKey !== undefined && hasProcessedKey(current, idempotencyKey);
+      
+      if (duplicate) {
+        const holder = getRoleAssignments(current, getCurrentOwner(current), periodInfo).find(assignment => assignment.role.id === roleId);
+        skip = holder && { skippedUser: holder.user, newUser: holder.user, role: holder.role };
+      } else {
+        skip = skipRoleUser(current, roleId, getCurrentOwner(current), periodInfo);
+        if (idempotencyKey) {
+          recordProcessedKey(current, idempotencyKey);
+        }
+      }
+      
+      // Nothing to write for a repeated interaction
+      return !duplicate;
+    });
+    
+    if (!skip) {
+      throw new Error(`Unknown role "${roleId}"`);
+    }
+    if (duplicate) {
+      console.log(`Ignoring repeated skip ${idempotencyKey}`);
+      return { ...skip, mode: 'advance', duplicate };
+    }
     
-    await this.advanceRotation(state, currentDate);
+    await this.recordHistory(updated, currentDate, {
+      action: 'skip',
+      assignedUserId: skip.skippedUser.id,
+      presenterId: skip.newUser.id,
+      actorId,
+      role: roleId,
+    });
     
-    return this.storageService.getCurrentUser();
+    console.log(`${skip.role!.name} skipped: ${skip.skippedUser.id} → ${skip.newUser.id}`);
+    return { ...skip, mode: 'advance', duplicate };
   }
 
   /**
    * Reset rotation to a specific user
    */
-  async setCurrentUser(userId: string): Promise<User> {
+  async setCurrentUser(userId: string, actorId?: string): Promise<User> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let previousUser: User | undefined;
+    
+    const state = await this.storageService.mutateRotationState(current => {
+      previousUser = getCurrentOwner(current);
+      assignCurrentOwner(current, userId, getRotationPeriod(currentDate, current.config, current.startDate));
+      current.lastRotationDate = currentDate.toISOString();
+    });
+    
+    const newUser = getCurrentOwner(state);
+    await this.recordHistory(state, currentDate, {
+      action: 'set',
+      assignedUserId: previousUser!.id,
+      presenterId: newUser.id,
+      actorId,
+    });
+    
+    return newUser;
+  }
+
+  /**
+   * Swap two users' places in the rotation order
+   */
+  async swapUsers(firstUserId: string, secondUserId: string, actorId?: string): Promise<User> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let previousUser: User | undefined;
+    
+    const state = await this.storageService.mutateRotationState(current => {
+      previousUser = getCurrentOwner(current);
+      swapUsers(current, firstUserId, secondUserId);
+    });
+    
+    const newUser = getCurrentOwner(state);
+    if (newUser.id !== previousUser!.id) {
+      await this.recordHistory(state, currentDate, {
+        action: 'set',
+        assignedUserId: previousUser!.id,
+        presenterId: newUser.id,
+        actorId,
+      });
+    }
+    
+    return newUser;
+  }
+
+  /**
+   * Add a user to the rotation (placed per `config.newcomerPlacement`), starting today or on `startDate`
+   */
+  async addUser(userId: string, startDate?: string): Promise<void> {
+    if (startDate !== undefined && !this.isISODate(startDate)) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+    
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    await this.storageService.addUser({ id: userId, startDate: startDate || currentDate.toISOString().substring(0, 10) });
+  }
+
+  /**
+   * Remove a user from the rotation now, returning who presents this period afterwards
+   */
+  async removeUser(userId: string, actorId?: string): Promise<User> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let previousUser: User | undefined;
+    
+    const state = await this.storageService.mutateRotationState(current => {
+      previousUser = getCurrentOwner(current);
+      deleteUser(current, userId);
+    });
+    
+    const newUser = getCurrentOwner(state);
+    await this.recordHistory(state, currentDate, {
+      action: 'remove',
+      assignedUserId: previousUser!.id,
+      presenterId: newUser.id,
+      actorId,
+      removedUserId: userId,
+    });
+    
+    return newUser;
+  }
+
+  /**
+   * Set the last day a user is in the rotation (inclusive, YYYY-MM-DD); they are passed over
+   * for any period ending after it, without a make-up turn
+   */
+  async setUserEndDate(userId: string, endDate: string): Promise<void> {
+    if (!this.isISODate(endDate)) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+    
+    await this.storageService.mutateRotationState(current => {
+      const user = current.users.find(candidate => candidate.id === userId);
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found in rotation`);
+      }
+      if (endDate < user.startDate.substring(0, 10)) {
+        throw new Error(`${endDate} is before <@${userId}>'s start date ${user.startDate.substring(0, 10)}`);
+      }
+      
+      user.endDate = endDate;
+    });
+  }
+
+  /**
+   * Mark a user as out of office between two dates (inclusive, YYYY-MM-DD)
+   */
+  async addUnavailability(userId: string, range: UnavailableRange): Promise<void> {
+    if (!this.isISODate(range.start) || !this.isISODate(range.end)) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+    if (range.start > range.end) {
+      throw new Error(`${range.start} is after ${range.end}`);
+    }
+    
+    await this.storageService.mutateRotationState(current => {
+      const user = current.users.find(candidate => candidate.id === userId);
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found in rotation`);
+      }
+      
+      user.unavailable = [...(user.unavailable || []), range];
+    });
+  }
+
+  /**
+   * Claim the DM reminder that is due for the current presenter, if any.
+   * Due reminders are marked as sent before returning, so concurrent runners don't DM twice;
+   * when several are due at once only the one closest to the meeting is returned.
+   */
+  async claimDueReminder(): Promise<DueReminder | undefined> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let due: DueReminder | undefined;
+    
+    await this.storageService.mutateRotationState(current => {
+      due = undefined;
+      const reminders = current.config.reminders;
+      if (!reminders) {
+        return false;
+      }
+      
+      const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+      if (getPeriodBlackout(periodInfo, current.config)) {
+        return false;
+      }
+      
+      const period = this.getPeriodKey(periodInfo);
+      const meetingAt = getMeetingTime(periodInfo, reminders.meeting);
+      // Reminders from earlier periods are dropped here
+      const sent = (current.sentReminders || []).filter(key => key.startsWith(`${period}@`));
+      const offsets = getDueReminderOffsets(reminders, meetingAt, currentDate, offset =>
+        sent.includes(getReminderKey(period, offset))
+      );
+      if (offsets.length === 0) {
+        return false;
+      }
+      
+      current.sentReminders = [...sent, ...offsets.map(offset => getReminderKey(period, offset))];
+      
+      // Don't DM someone who is out of office; the rotation passes over them instead
+      const user = getCurrentOwner(current);
+      if (isUserEligible(user, periodInfo)) {
+        due = { user, periodInfo, meetingAt, offset: offsets[0]! };
+      }
+      return true;
+    });
+    
+    return due;
+  }
+
+  /**
+   * Claim the current period's channel notification, returning the period, unless it was
+   * already sent, someone else is sending it, or there is no meeting. It is marked before
+   * sending, like reminders, so schedulers, cron re-runs and manual runs never post twice.
+   * With `waitForSchedule` it is only claimed once `schedule.time` has passed.
+   */
+  async claimNotification(options: { waitForSchedule?: boolean } = {}): Promise<PeriodInfo | undefined> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let claimed: PeriodInfo | undefined;
+    
+    await this.storageService.mutateRotationState(current => {
+      claimed = undefined;
+      const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+      const period = this.getPeriodKey(periodInfo);
+      const claim = current.notificationClaim;
+      if (current.lastNotification?.period === period) {
+        return false;
+      }
+      if (claim?.period === period && currentDate.getTime() - Date.parse(claim.claimedAt) < NOTIFICATION_CLAIM_MS) {
+        return false;
+      }
+      if (getPeriodBlackout(periodInfo, current.config)) {
+        return false;
+      }
+      if (options.waitForSchedule && currentDate < getNotificationTime(periodInfo, current.config.schedule)) {
+        return false;
+      }
+      
+      current.notificationClaim = { period, claimedAt: currentDate.toISOString() };
+      claimed = periodInfo;
+      return true;
+    });
+    
+    return claimed;
+  }
+
+  /**
+   * Give back a claimed notification that couldn't be sent, so the next run tries again
+   */
+  async releaseNotification(periodInfo: PeriodInfo): Promise<void> {
+    const period = this.getPeriodKey(periodInfo);
+    
+    await this.storageService.mutateRotationState(current => {
+      if (current.notificationClaim?.period !== period) {
+        return false;
+      }
+      delete current.notificationClaim;
+      return true;
+    });
+  }
+
+  /**
+   * Record that the current presenter accepted this period
+   */
+  async confirmPresenter(userId: string): Promise<PresenterConfirmation> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    // Save any advance or pass-over first, so the stored owner is the one everyone else sees
+    await this.getCurrentForumOwner();
+    
+    const state = await this.storageService.mutateRotationState(current => {
+      this.assertCurrentOwner(current, userId);
+      current.confirmation = {
+        period: this.getPeriodKey(getRotationPeriod(currentDate, current.config, current.startDate)),
+        userId,
+        confirmedAt: currentDate.toISOString(),
+      };
+    });
+    
+    return state.confirmation!;
+  }
+
+  /**
+   * Remember the channel message announcing the current period, so it can be updated later
+   */
+  async recordNotification(messageTs: string, channelId: string): Promise<void> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    
+    await this.storageService.mutateRotationState(current => {
+      current.lastNotification = {
+        period: this.getPeriodKey(getRotationPeriod(currentDate, current.config, current.startDate)),
+        channelId,
+        messageTs,
+        sentAt: currentDate.toISOString(),
+      };
+      delete current.notificationClaim;
+    });
+  }
+
+  /**
+   * If the presenter hasn't confirmed within `confirmationDeadline` of being notified (or of
+   * becoming presenter, if later), hand the period to the next eligible user.
+   */
+  async enforceConfirmationDeadline(): Promise<ConfirmationFallback | undefined> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    let unconfirmedUser: User | undefined;
+    
+    const state = await this.storageService.mutateRotationState(current => {
+      unconfirmedUser = undefined;
+      const deadline = current.config.confirmationDeadline;
+      const notification = current.lastNotification;
+      const period = this.getPeriodKey(getRotationPeriod(currentDate, current.config, current.startDate));
+      
+      if (!deadline || !notification || notification.period !== period || this.isConfirmed(current, currentDate)) {
+        return false;
+      }
+      
+      // Whoever became presenter after the notification gets a full window of their own
+      const windowStart = Math.max(Date.parse(notification.sentAt), Date.parse(current.lastRotationDate));
+      if (currentDate.getTime() < windowStart + parseReminderOffset(deadline)) {
+        return false;
+      }
+      
+      unconfirmedUser = getCurrentOwner(current);
+      const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+      skipCurrentOwner(current, current.config.skipMode || 'advance', periodInfo);
+      passOverUnavailableOwner(current, periodInfo);
+      current.lastRotationDate = currentDate.toISOString();
+      return true;
+    });
+    
+    if (!unconfirmedUser) {
+      return undefined;
+    }
+    
+    const newUser = getCurrentOwner(state);
+    await this.recordHistory(state, currentDate, {
+      action: 'unconfirmed',
+      assignedUserId: unconfirmedUser.id,
+      presenterId: newUser.id,
+    });
+    
+    console.log(`${unconfirmedUser.id} didn't confirm in time, offered the period to ${newUser.id}`);
+    return { unconfirmedUser, newUser, notification: state.lastNotification! };
+  }
+
+  /**
+   * The current presenter can't make it: skip them (per the skip mode), once per period
+   */
+  async declinePresenting(userId: string): Promise<SkipResult> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    await this.getCurrentForumOwner();
     const state = await this.storageService.loadRotationState();
-    const userIndex = state.users.findIndex(user => user.id === userId);
+    this.assertCurrentOwner(state, userId);
     
-    if (userIndex === -1) {
-      throw new Error(`User with ID ${userId} not found in rotation`);
+    const period = this.getPeriodKey(getRotationPeriod(currentDate, state.config, state.startDate));
+    return this.skipCurrentUser(userId, `decline:${userId}:${period}`);
+  }
+
+  /**
+   * Save the article for the current period; only its presenter or a rotation admin can submit one
+   */
+  async submitArticle(actorId: string, submission: ArticleSubmission): Promise<Article> {
+    const error = getArticleSubmissionError(submission);
+    if (error) {
+      throw new Error(error);
     }
     
     const currentDate = getCurrentDateInTimezone(this.timezone);
-    await this.storageService.updateRotationState(userIndex, currentDate.toISOString());
+    const state = await this.storageService.loadRotationState();
+    if (!state.config.articles) {
+      throw new Error('This rotation doesn\'t collect articles');
+    }
+    const owner = getCurrentOwner(state);
+    if (owner.id !== actorId && !isRotationAdmin(state, actorId)) {
+      throw new Error(`Only <@${owner.id}> or a rotation admin can submit this period's article`);
+    }
     
-    return state.users[userIndex]!;
+    const article: Article = {
+      period: this.getPeriodKey(getRotationPeriod(currentDate, state.config, state.startDate)),
+      userId: owner.id,
+      title: submission.title.trim(),
+      url: submission.url.trim(),
+      ...(submission.summary?.trim() ? { summary: submission.summary.trim() } : {}),
+      submittedAt: currentDate.toISOString(),
+      submittedBy: actorId,
+    };
+    
+    await this.storageService.saveArticle(article);
+    console.log(`Article submitted for ${article.period} by ${actorId}: ${article.url}`);
+    return article;
+  }
+
+  /**
+   * Search the article archive (every word must match), newest first
+   */
+  async searchArticles(query?: string, limit?: number): Promise<Article[]> {
+    const articles = searchArticles(await this.storageService.getArticles(), query);
+    return limit === undefined ? articles : articles.slice(0, limit);
+  }
+
+  /**
+   * Whether the current presenter has confirmed, the article they submitted and who fills each role,
+   * for the rotation message
+   */
+  async getNotificationStatus(): Promise<NotificationStatus> {
+    const currentDate = getCurrentDateInTimezone(this.timezone);
+    const state = await this.storageService.loadRotationState();
+    const period = this.getPeriodKey(getRotationPeriod(currentDate, state.config, state.startDate));
+    const owner = getCurrentOwner(state);
+    
+    const article = (await this.storageService.getArticles()).find(
+      saved => saved.period === period && saved.userId === owner.id
+    );
+    
+    const roles = getRoleAssignments(state, owner, getRotationPeriod(currentDate, state.config, state.startDate));
+    
+    return { confirmed: this.isConfirmed(state, currentDate), article, ...(roles.length > 0 ? { roles } : {}) };
+  }
+
+  /**
+   * Get rotation history (oldest first), optionally filtered by period
+   */
+  async getRotationHistory(filter: HistoryFilter = {}): Promise<RotationHistoryEntry[]> {
+    const { since, until, limit } = filter;
+    
+    if (!since && !until) {
+      return this.storageService.getHistory(limit);
+    }
+    
+    const entries = (await this.storageService.getHistory()).filter(
+      entry => (!since || entry.period >= since) && (!until || entry.period <= until)
+    );
+    
+    return limit === undefined ? entries : entries.slice(Math.max(entries.length - limit, 0));
+  }
+
+  /**
+   * Get who actually presented in each period (the outcome of the last action per period).
+   * Changes to other roles don't count.
+   */
+  async getPresenterSummary(
+    filter: HistoryFilter = {}
+  ): Promise<PeriodPresenter[]> {
+    const entries = (await this.getRotationHistory({ since: filter.since, until: filter.until })).filter(entry => !entry.role);
+    const byPeriod = new Map<string, PeriodPresenter>();
+    
+    for (const entry of entries) {
+      const existing = byPeriod.get(entry.period);
+      byPeriod.set(entry.period, {
+        period: entry.period,
+        // Keep whoever was originally assigned, even after several skips
+        assignedUserId: existing?.assignedUserId || entry.assignedUserId,
+        presenterId: entry.presenterId,
+      });
+    }
+    
+    const summary = [...byPeriod.values()].sort((a, b) => a.period.localeCompare(b.period));
+    return filter.limit === undefined ? summary : summary.slice(Math.max(summary.length - filter.limit, 0));
   }
 
   /**
@@ -142,16 +738,20 @@ export class RotationService {
    */
   async getRotationStats(): Promise<{
     totalUsers: number;
+    activeUsers: number; // In the rotation this period (between their start and end dates)
     currentUserIndex: number;
     periodsSinceStart: number;
     rotationsCompleted: number;
     lastRotationDate: string;
     rotationFrequency: string;
+    roles: Array<{ name: string; userId: string }>;
   }> {
     const state = await this.storageService.loadRotationState();
     const currentDate = getCurrentDateInTimezone(this.timezone);
     const startDate = new Date(state.startDate);
-    const periodsSinceStart = getPeriodsBetween(startDate, currentDate, state.config);
+    const periodsSinceStart = getPeriodsBetween(startDate, currentDate, state.config, state.startDate);
+    
+    const activeUsers = state.users.filter(user => isUserActive(user, this.getCurrentPeriod(state))).length;
     
     const frequencyDisplay = state.config.frequency === 'custom' 
       ? `Every ${state.config.interval} days`
@@ -159,11 +759,16 @@ export class RotationService {
     
     return {
       totalUsers: state.users.length,
+      activeUsers,
       currentUserIndex: state.currentIndex,
       periodsSinceStart,
-      rotationsCompleted: Math.floor(periodsSinceStart / state.users.length),
+      rotationsCompleted: Math.floor(periodsSinceStart / Math.max(activeUsers, 1)),
       lastRotationDate: state.lastRotationDate,
       rotationFrequency: frequencyDisplay,
+      roles: getRoleAssignments(state, getCurrentOwner(state), this.getCurrentPeriod(state)).map(({ role, user }) => ({
+        name: role.name,
+        userId: user.id,
+      })),
     };
   }
 
@@ -172,45 +777,163 @@ export class RotationService {
    */
   private shouldAdvanceRotation(state: RotationState, currentDate: Date): boolean {
     // Use configurable rotation period check
-    if (isNewRotationPeriod(state.lastRotationDate, currentDate, state.config)) {
+    if (isNewRotationPeriod(state.lastRotationDate, currentDate, state.config, state.startDate)) {
       return true;
     }
     
     // Also check if we're significantly behind (missed periods)
     const lastRotationDate = new Date(state.lastRotationDate);
-    const periodsSinceLastRotation = getPeriodsBetween(lastRotationDate, currentDate, state.config);
+    const periodsSinceLastRotation = getPeriodsBetween(lastRotationDate, currentDate, state.config, state.startDate);
     
     return periodsSinceLastRotation > 0;
   }
 
   /**
-   * Advance the rotation and update state
+   * Advance the rotation to the next period's owner and record it in history. Someone assigned
+   * during a period without a meeting keeps their turn for this one instead.
    */
-  private async advanceRotation(state: RotationState, currentDate: Date): Promise<void> {
-    // Simply increment to next user
-    const newIndex = (state.currentIndex + 1) % state.users.length;
+  private async advanceRotation(currentDate: Date, lastServed?: Record<string, string>): Promise<User> {
+    let advanced = false;
     
-    await this.storageService.updateRotationState(newIndex, currentDate.toISOString());
+    const state = await this.storageService.mutateRotationState(current => {
+      // Checked again on the latest state: a concurrent caller (or an earlier attempt of this
+      // compare-and-set) may already have advanced into this period
+      advanced = this.shouldAdvanceRotation(current, currentDate);
+      if (!advanced) {
+        return false;
+      }
+      
+      const periodInfo = getRotationPeriod(currentDate, current.config, current.startDate);
+      if (lastServed && !current.lastServed) {
+        current.lastServed = lastServed;
+      }
+      if (this.wasAssignedInBlackout(current)) {
+        passOverUnavailableOwner(current, periodInfo);
+      } else {
+        advanceAssignment(current, periodInfo);
+      }
+      current.lastRotationDate = currentDate.toISOString();
+      return true;
+    });
+    
+    const newUser = getCurrentOwner(state);
+    if (!advanced) {
+      return newUser;
+    }
     
-    console.log(`Rotation advanced to next user, new index: ${newIndex}`);
+    await this.recordHistory(state, currentDate, {
+      action: 'advance',
+      assignedUserId: newUser.id,
+      presenterId: newUser.id,
+    });
+    
+    console.log(`Rotation advanced to next user: ${newUser.id}`);
+    return newUser;
   }
 
   /**
-   * Get user at specific index with bounds checking
+   * For least-recent ordering without `lastServed` yet (e.g. just switched to it), the period
+   * each user last presented according to the rotation history
    */
-  private getUserAtIndex(state: RotationState, index: number): User {
-    if (state.users.length === 0) {
-      throw new Error('No users in rotation');
+  private async getServedHistory(state: RotationState): Promise<Record<string, string> | undefined> {
+    if (getOrderingStrategy(state) !== 'least-recent' || state.lastServed) {
+      return undefined;
+    }
+    
+    const lastServed: Record<string, string> = {};
+    for (const { period, presenterId } of await this.getPresenterSummary()) {
+      lastServed[presenterId] = period;
     }
+    return lastServed;
+  }
+
+  /**
+   * Whether the current owner was assigned during a period that had no meeting
+   */
+  private wasAssignedInBlackout(state: RotationState): boolean {
+    const assignedIn = getRotationPeriod(new Date(state.lastRotationDate), state.config, state.startDate);
+    return getPeriodBlackout(assignedIn, state.config) !== undefined;
+  }
+
+  /**
+   * Hand the current period to the next available user when the owner is out of office
+   */
+  private async passOverUnavailableOwner(currentDate: Date): Promise<User> {
+    let passedOver: User | undefined;
     
-    const safeIndex = index % state.users.length;
-    const user = state.users[safeIndex];
+    const state = await this.storageService.mutateRotationState(current => {
+      passedOver = passOverUnavailableOwner(current, getRotationPeriod(currentDate, current.config, current.startDate));
+    });
     
-    if (!user) {
-      throw new Error(`User not found at index ${safeIndex}`);
+    const newUser = getCurrentOwner(state);
+    if (passedOver) {
+      await this.recordHistory(state, currentDate, {
+        action: 'unavailable',
+        assignedUserId: passedOver.id,
+        presenterId: newUser.id,
+      });
+      console.log(`${passedOver.id} is unavailable this period, passed over to ${newUser.id}`);
     }
     
-    return user;
+    return newUser;
+  }
+
+  /**
+   * Append a history entry for the period containing `currentDate`
+   */
+  private async recordHistory(
+    state: RotationState,
+    currentDate: Date,
+    entry: Omit<RotationHistoryEntry, 'timestamp' | 'period'>
+  ): Promise<void> {
+    const periodInfo = getRotationPeriod(currentDate, state.config, state.startDate);
+    
+    try {
+      await this.storageService.appendHistory({
+        timestamp: currentDate.toISOString(),
+        period: this.getPeriodKey(periodInfo),
+        ...entry,
+      });
+    } catch (error) {
+      // The rotation change already happened; losing the audit record must not fail the action
+      console.error('Failed to record rotation history:', error);
+    }
+  }
+
+  /**
+   * Whether the state holds the current owner's confirmation for the period containing `date`
+   */
+  private isConfirmed(state: RotationState, date: Date): boolean {
+    const confirmation = state.confirmation;
+    return (
+      confirmation !== undefined &&
+      confirmation.userId === getCurrentOwner(state).id &&
+      confirmation.period === this.getPeriodKey(getRotationPeriod(date, state.config, state.startDate))
+    );
+  }
+
+  /**
+   * Throw unless the user is presenting this period
+   */
+  private assertCurrentOwner(state: RotationState, userId: string): void {
+    const owner = getCurrentOwner(state);
+    if (owner.id !== userId) {
+      throw new Error(`<@${owner.id}> is presenting this period now`);
+    }
+  }
+
+  /**
+   * Whether a string is a valid YYYY-MM-DD date
+   */
+  private isISODate(date: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+  }
+
+  /**
+   * Identify a period by its start date (YYYY-MM-DD), as history and reminders do
+   */
+  private getPeriodKey(periodInfo: PeriodInfo): string {
+    return periodInfo.startDate.toISOString().substring(0, 10);
   }
 
   /**
@@ -1,132 +1,129 @@
-import { App } from '@slack/bolt';
-import { SlackService } from './SlackService';
-import { RotationService } from './RotationService';
-import { getRotationPeriod } from '../utils/dateUtils';
-
+import { App, ExpressReceiver } from '@slack/bolt';
+import { RequestHandler, Router } from 'express';
+import { RotationRegistry } from './RotationRegistry';
+import { SlackInteractionService } from './SlackInteractionService';
+import { SlackReplayCache, verifySlackRequest } from '../utils/slackSignature';
+
+// Where Slack posts every request, as configured in the Slack app
+const EVENTS_PATH = '/slack/events';
+
+/**
+ * Express middleware that checks Slack's signature like the Vercel function does: against the
+ * current and previous signing secrets, rejecting unsigned requests and replays. Retries are
+ * acknowledged without being handled again. The body it read is left as `rawBody`, which Bolt
+ * parses instead of the (consumed) request stream.
+ */
+export function createSlackVerificationMiddleware(signingSecrets: string[]): RequestHandler {
+  const replayCache = new SlackReplayCache();
+
+  return async (req, res, next) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const rawBody = Buffer.concat(chunks);
+    (req as typeof req & { rawBody: Buffer }).rawBody = rawBody;
+
+    const signature = req.headers['x-slack-signature'];
+    const timestamp = req.headers['x-slack-request-timestamp'];
+    const verification = verifySlackRequest(rawBody.toString('utf8'), signature, timestamp, signingSecrets);
+    if (!verification.valid) {
+      console.log(`[ERROR] Rejected Slack request: ${verification.reason}`);
+      res.status(401).send();
+      return;
+    }
+
+    const retryNum = req.headers['x-slack-retry-num'];
+    if (retryNum) {
+      console.log(`Ignoring Slack retry ${retryNum} (${req.headers['x-slack-retry-reason'] || 'no reason given'})`);
+      res.setHeader('X-Slack-No-Retry', '1');
+      res.status(200).send();
+      return;
+    }
+
+    if (!replayCache.checkAndRecord(signature as string, timestamp as string)) {
+      console.log('[ERROR] Rejected a replayed Slack request');
+      res.status(401).send();
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Bolt server for running the Slack app locally (`--server`). It only acknowledges requests;
+ * SlackInteractionService does the work, exactly as it does for the Vercel function.
+ */
 export class SlackInteractionHandler {
   private app: App;
-  private slackService: SlackService;
-  private rotationService: RotationService;
+  private receiver: ExpressReceiver;
+  private interactions: SlackInteractionService;
 
   constructor(
-    signingSecret: string,
+    signingSecrets: string[],
     botToken: string,
-    slackService: SlackService,
-    rotationService: RotationService
+    registry: RotationRegistry
   ) {
+    // Bolt's own check only knows one secret, so requests are verified before they reach it
+    const router = Router();
+    router.use(EVENTS_PATH, createSlackVerificationMiddleware(signingSecrets));
+    this.receiver = new ExpressReceiver({
+      signingSecret: '',
+      signatureVerification: false,
+      endpoints: EVENTS_PATH,
+      router,
+    });
+
+    // Bolt responds as soon as a listener calls ack(), so Slack gets its answer before the work is done
+    // Initialized (which checks the token with Slack) when the server starts, not on construction
     this.app = new App({
-      signingSecret,
       token: botToken,
-      processBeforeResponse: true,
+      receiver: this.receiver,
+      deferInitialization: true,
     });
 
-    this.slackService = slackService;
-    this.rotationService = rotationService;
+    this.interactions = new SlackInteractionService(registry);
     
     this.setupHandlers();
   }
 
   /**
-   * Setup all Slack interaction handlers
+   * Route every action, command, modal submission and event to the shared interaction service
    */
   private setupHandlers(): void {
-    // Handle skip rotation button
-    this.app.action('skip_rotation', async ({ ack, body, client, logger }) => {
+    // Buttons, including `skip_role:<role id>`
+    this.app.action(/.*/, async ({ ack, body }) => {
       await ack();
-
-      try {
-        const userId = body.user.id;
-        const originalMessageTs = (body as any).message?.ts;
-
-        // Advance to next user
-        const newUser = await this.rotationService.advanceToNextUser();
-        const state = await this.rotationService.getStorageService().loadRotationState();
-        const currentDate = new Date();
-        const periodInfo = getRotationPeriod(currentDate, state.config);
-
-        // Update the original message with new rotation info
-        if (originalMessageTs) {
-          await this.slackService.updateMessage(originalMessageTs, newUser, periodInfo, state.config);
-        }
-
-        // Send confirmation to the channel (visible to everyone)
-        await this.slackService.sendPublicMessage(
-          `✅ Rotation skipped by <@${userId}>! Next emcee is now <@${newUser.id}>.`
-        );
-
-        logger.info(`Rotation skipped by user ${userId}. New emcee: ${newUser.id}`);
-      } catch (error) {
-        logger.error('Error handling skip rotation:', error);
-        
-        // Send error message to channel
-        await this.slackService.sendPublicMessage(
-          `❌ <@${body.user.id}> tried to skip the rotation, but there was an error. Please try again or contact an admin.`
-        );
-      }
+      await this.interactions.handleAction(body);
     });
 
-    // Handle show schedule button
-    this.app.action('show_schedule', async ({ ack, body, logger }) => {
+    // `/rotation` and `/skip-rotation`
+    this.app.command(/.*/, async ({ ack, body, respond }) => {
       await ack();
 
-      try {
-        const userId = body.user.id;
-        
-        // Get upcoming rotation schedule (next 4 periods)
-        const schedule = await this.rotationService.getUpcomingRotation(4);
-        
-        // Send schedule as ephemeral message (only visible to the user who clicked)
-        await this.slackService.sendScheduleMessage(userId, schedule);
-
-        logger.info(`Schedule shown to user ${userId}`);
-      } catch (error) {
-        logger.error('Error showing schedule:', error);
-        
-        // Send error message to channel
-        await this.slackService.sendPublicMessage(
-          `❌ <@${body.user.id}> tried to view the schedule, but there was an error. Please try again or contact an admin.`
-        );
+      const response = this.interactions.toSlackResponse(await this.interactions.handleSlashCommand(body));
+      if (response) {
+        await respond(response);
       }
     });
 
-    // Handle slash commands (optional)
-    this.app.command('/skip-rotation', async ({ ack, body, client, logger }) => {
-      await ack();
-
-      try {
-        const userId = body.user_id;
-        
-        // Advance to next user
-        const newUser = await this.rotationService.advanceToNextUser();
-        const state = await this.rotationService.getStorageService().loadRotationState();
-        const currentDate = new Date();
-        const periodInfo = getRotationPeriod(currentDate, state.config);
-
-        // Send new rotation notification
-        await this.slackService.sendRotationNotification(newUser, periodInfo, state.config);
-
-        // Send confirmation to the channel (visible to everyone)
-        await this.slackService.sendPublicMessage(
-          `✅ Rotation skipped by <@${userId}>! Next emcee is now <@${newUser.id}>.`
-        );
-
-        logger.info(`Rotation skipped via slash command by user ${userId}. New emcee: ${newUser.id}`);
-      } catch (error) {
-        logger.error('Error handling skip rotation slash command:', error);
-        
-        // Send error response to channel
-        await this.slackService.sendPublicMessage(
-          `❌ <@${body.user_id}> tried to skip the rotation, but there was an error. Please try again or contact an admin.`
-        );
-      }
+    // Modals; errors keep the form open
+    this.app.view(/.*/, async ({ ack, body }) => {
+      const { ack: response, followUp } = await this.interactions.startViewSubmission(body);
+      await ack(response);
+      await followUp;
     });
 
+    this.app.event(/.*/, async ({ body }) => {
+      await this.interactions.handleEvent(body);
+    });
   }
 
   /**
    * Start the Bolt app server
    */
   async start(port: number = 3000): Promise<void> {
+    await this.app.init();
     await this.app.start(port);
     console.log(`⚡️ Slack app is listening on port ${port}!`);
   }
@@ -142,7 +139,7 @@ export class SlackInteractionHandler {
   /**
    * Get the Express receiver for integration with existing servers
    */
-  getReceiver(): any {
-    return (this.app as any).receiver;
+  getReceiver(): ExpressReceiver {
+    return this.receiver;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,516 @@
+import type { RespondArguments } from '@slack/bolt';
+import { Article, CommandResponse, SlashCommandInput } from '../types';
+import { RotationCommandService } from './RotationCommandService';
+import { RotationContext, RotationRegistry } from './RotationRegistry';
+import { formatArticleLink } from '../utils/articles';
+import { getSkipIdempotencyKey } from '../utils/idempotency';
+
+/**
+ * A button press, with the services of the rotation it belongs to
+ */
+interface ActionInteraction {
+  context: RotationContext;
+  actionId: string;
+  value?: string;
+  userId: string;
+  messageTs?: string; // The message the button is on
+  channelId?: string; // Where that message is (the DM, for reminder buttons)
+  triggerId?: string; // Lets the action open a modal
+}
+
+/**
+ * How to acknowledge a submitted modal: nothing closes it, errors keep it open
+ */
+export type ViewSubmissionAck = { response_action: 'errors'; errors: Record<string, string> } | undefined;
+
+// What the user was trying to do, for the error posted when a button fails
+const ACTION_DESCRIPTIONS: Record<string, string> = {
+  skip_rotation: 'skip the rotation',
+  skip_role: 'skip a role',
+  show_schedule: 'view the schedule',
+  show_history: 'view the rotation history',
+};
+
+/**
+ * Handles every Slack interaction (button presses, slash commands, modal submissions and events)
+ * independently of how it arrived, so the Bolt server and the Vercel function behave the same.
+ * Payloads are Slack's own: Bolt's `body` or the JSON the Vercel function parsed.
+ */
+export class SlackInteractionService {
+  private registry: RotationRegistry;
+  private commands: RotationCommandService;
+
+  constructor(registry: RotationRegistry) {
+    this.registry = registry;
+    this.commands = new RotationCommandService(registry);
+  }
+
+  /**
+   * Handle any payload Slack posts to the request URL, returning the body to acknowledge it with
+   * (undefined for an empty 200). Slash commands arrive as their form fields.
+   */
+  async dispatch(payload: any): Promise<object | undefined> {
+    if (payload.type === 'url_verification') {
+      return { challenge: payload.challenge };
+    }
+    if (typeof payload.command === 'string') {
+      return this.toSlackResponse(await this.handleSlashCommand(payload));
+    }
+    if (payload.type === 'view_submission') {
+      return this.handleViewSubmission(payload);
+    }
+    if (payload.type === 'block_actions' || payload.type === 'interactive_message') {
+      await this.handleAction(payload);
+      return undefined;
+    }
+    if (payload.type === 'event_callback') {
+      await this.handleEvent(payload);
+      return undefined;
+    }
+
+    console.log(`Ignoring Slack payload of type ${payload.type}`);
+    return undefined;
+  }
+
+  /**
+   * Handle a payload Slack has already been sent an empty acknowledgement for, as the Vercel function
+   * does to answer within Slack's 3 seconds. Slash command responses go to the command's response_url instead.
+   */
+  async handleAcknowledged(payload: any): Promise<void> {
+    if (typeof payload.command === 'string') {
+      let response: CommandResponse | undefined;
+      try {
+        response = await this.handleSlashCommand(payload);
+      } catch (error) {
+        console.error(`Error handling ${payload.command}:`, error);
+        response = { responseType: 'ephemeral', text: `❌ ${(error as Error).message}` };
+      }
+
+      if (response && payload.response_url) {
+        await this.postToResponseUrl(payload.response_url, response);
+      }
+      return;
+    }
+    if (payload.type === 'view_submission') {
+      // The acknowledgement is what shows errors on the form, so it can't be sent first
+      throw new Error('Modal submissions must be handled with startViewSubmission');
+    }
+
+    await this.dispatch(payload);
+  }
+
+  /**
+   * Handle a button press. Feedback goes to Slack as messages, so the request is always
+   * acknowledged with an empty response.
+   */
+  async handleAction(payload: any): Promise<void> {
+    const action = payload.actions?.[0];
+    const userId = payload.user?.id;
+    if (!action || !userId) {
+      console.log('Ignoring an interaction without an action or user');
+      return;
+    }
+
+    const rotationId = this.getActionRotationId(action.value);
+    if (rotationId && !this.registry.hasRotation(rotationId)) {
+      console.log(`Ignoring ${action.action_id} for unknown rotation "${rotationId}"`);
+      return;
+    }
+
+    const interaction: ActionInteraction = {
+      context: this.registry.getContext(rotationId),
+      actionId: action.action_id,
+      value: action.value,
+      userId,
+      messageTs: payload.message?.ts,
+      channelId: payload.channel?.id,
+      triggerId: payload.trigger_id,
+    };
+    console.log(`Handling action: ${interaction.actionId} by user: ${userId} (rotation: ${interaction.context.definition.id})`);
+
+    try {
+      if (interaction.actionId === 'skip_rotation') {
+        await this.skipRotation(interaction);
+      } else if (interaction.actionId.startsWith('skip_role:')) {
+        await this.skipRole(interaction);
+      } else if (interaction.actionId === 'show_schedule') {
+        await this.showSchedule(interaction);
+      } else if (interaction.actionId === 'show_history') {
+        await this.showHistory(interaction);
+      } else if (interaction.actionId === 'confirm_presenter') {
+        await this.confirmPresenter(interaction);
+      } else if (interaction.actionId === 'submit_article') {
+        await this.openArticleForm(interaction);
+      } else if (interaction.actionId === 'reminder_confirm') {
+        await this.confirmFromReminder(interaction);
+      } else if (interaction.actionId === 'reminder_decline') {
+        await this.declineFromReminder(interaction);
+      } else {
+        console.log(`Unknown action: ${interaction.actionId}`);
+      }
+    } catch (error) {
+      console.error(`Error handling ${interaction.actionId}:`, error);
+      await this.reportActionError(interaction, error as Error);
+    }
+  }
+
+  /**
+   * Handle a slash command, returning the response to show (undefined when the command
+   * already posted its result to the channel)
+   */
+  async handleSlashCommand(form: { command: string; text?: string; user_id: string; channel_id: string }): Promise<CommandResponse | undefined> {
+    const input: SlashCommandInput = { text: form.text || '', userId: form.user_id, channelId: form.channel_id };
+    console.log(`${form.command} ${input.text} by user ${input.userId}`);
+
+    if (form.command === '/rotation') {
+      return this.commands.execute(input);
+    }
+    if (form.command === '/skip-rotation') {
+      return this.skipFromSlashCommand(input);
+    }
+
+    return { responseType: 'ephemeral', text: `❌ Unknown command ${form.command}` };
+  }
+
+  /**
+   * Handle a submitted modal, returning the errors to show on it, if any
+   */
+  async handleViewSubmission(payload: any): Promise<ViewSubmissionAck> {
+    const { ack, followUp } = await this.startViewSubmission(payload);
+    await followUp;
+    return ack;
+  }
+
+  /**
+   * Save a submitted modal and return how to acknowledge it straight away, with the rest of the
+   * work (announcing the article) still running in `followUp`
+   */
+  async startViewSubmission(payload: any): Promise<{ ack: ViewSubmissionAck; followUp: Promise<void> }> {
+    const view = payload.view;
+    if (view?.callback_id !== 'submit_article_modal') {
+      console.log(`Ignoring submission of unknown view ${view?.callback_id}`);
+      return { ack: undefined, followUp: Promise.resolve() };
+    }
+
+    const rotationId = this.getViewRotationId(view);
+    if (rotationId && !this.registry.hasRotation(rotationId)) {
+      return {
+        ack: { response_action: 'errors', errors: { article_title: `Unknown rotation "${rotationId}"` } },
+        followUp: Promise.resolve(),
+      };
+    }
+
+    const context = this.registry.getContext(rotationId);
+    const { slackService, rotationService } = context;
+    const { submission, messageTs } = slackService.readArticleSubmission(view);
+
+    let article;
+    try {
+      article = await rotationService.submitArticle(payload.user.id, submission);
+    } catch (error) {
+      // Shown on the form, so the presenter can fix it without retyping
+      return {
+        ack: { response_action: 'errors', errors: { article_title: (error as Error).message } },
+        followUp: Promise.resolve(),
+      };
+    }
+
+    console.log(`Article submitted by ${payload.user.id}: ${article.url}`);
+    return { ack: undefined, followUp: this.announceArticle(context, article, messageTs) };
+  }
+
+  /**
+   * Handle an Events API callback. The app doesn't subscribe to any events yet, so they are only logged.
+   */
+  async handleEvent(payload: any): Promise<void> {
+    console.log(`Ignoring event ${payload.event?.type}`);
+  }
+
+  /**
+   * Convert a command response to the body Slack expects
+   */
+  toSlackResponse(response: CommandResponse | undefined): RespondArguments | undefined {
+    return response && { response_type: response.responseType, text: response.text, blocks: response.blocks };
+  }
+
+  private async announceArticle(context: RotationContext, article: Article, messageTs?: string): Promise<void> {
+    try {
+      if (messageTs) {
+        await this.refreshMessage(context, messageTs);
+      }
+      await context.slackService.sendPublicMessage(`📰 <@${article.userId}> is presenting ${formatArticleLink(article)}`);
+    } catch (error) {
+      console.error('Error announcing submitted article:', error);
+    }
+  }
+
+  /**
+   * Send a command response to a response_url, which accepts them for 30 minutes after the command
+   */
+  private async postToResponseUrl(responseUrl: string, response: CommandResponse): Promise<void> {
+    const result = await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.toSlackResponse(response)),
+    });
+    if (!result.ok) {
+      throw new Error(`Slack response_url request failed: ${result.status} ${result.statusText}`);
+    }
+  }
+
+  private async skipRotation({ context, value, userId, messageTs }: ActionInteraction): Promise<void> {
+    const { rotationService, slackService } = context;
+
+    const decision = await rotationService.checkPermission('skip', userId);
+    if (!decision.allowed) {
+      await slackService.sendEphemeralMessage(userId, `🚫 ${decision.reason}`);
+      return;
+    }
+
+    // Skip the current user according to the rotation's skip mode; Slack retries slow
+    // interactions, so a replayed click must not skip again
+    const skip = await rotationService.skipCurrentUser(userId, getSkipIdempotencyKey(value));
+    if (skip.duplicate) {
+      return;
+    }
+
+    if (messageTs) {
+      await this.refreshMessage(context, messageTs);
+    }
+    await slackService.sendPublicMessage(slackService.formatSkipConfirmation(userId, skip));
+
+    console.log(`Rotation skipped by ${userId}. New emcee: ${skip.newUser.id}`);
+  }
+
+  private async skipRole({ context, value, userId, messageTs }: ActionInteraction): Promise<void> {
+    const { rotationService, slackService } = context;
+    const { roleId } = JSON.parse(value || '{}');
+
+    const decision = await rotationService.checkPermission('skip', userId, roleId);
+    if (!decision.allowed) {
+      await slackService.sendEphemeralMessage(userId, `🚫 ${decision.reason}`);
+      return;
+    }
+
+    // Hand the role to the next person in its order; a replayed click is ignored
+    const skip = await rotationService.skipRole(roleId, userId, getSkipIdempotencyKey(value));
+    if (skip.duplicate) {
+      return;
+    }
+
+    if (messageTs) {
+      await this.refreshMessage(context, messageTs);
+    }
+    await slackService.sendPublicMessage(slackService.formatSkipConfirmation(userId, skip));
+
+    console.log(`Role ${roleId} skipped by ${userId}. Now: ${skip.newUser.id}`);
+  }
+
+  private async showSchedule({ context, userId }: ActionInteraction): Promise<void> {
+    // Only visible to the user who clicked
+    const schedule = await context.rotationService.getUpcomingRotation(4);
+    const { config } = await context.rotationService.getStorageService().loadRotationState();
+    await context.slackService.sendScheduleMessage(userId, schedule, config);
+
+    console.log(`Schedule shown to user ${userId}`);
+  }
+
+  private async showHistory({ context, userId }: ActionInteraction): Promise<void> {
+    // Only visible to the user who clicked
+    const summary = await context.rotationService.getPresenterSummary({ limit: 12 });
+    const entries = await context.rotationService.getRotationHistory({ limit: 10 });
+    await context.slackService.sendHistoryMessage(userId, summary, entries);
+
+    console.log(`History shown to user ${userId}`);
+  }
+
+  private async confirmPresenter({ context, userId, messageTs }: ActionInteraction): Promise<void> {
+    const { rotationService, slackService } = context;
+
+    // Only the current presenter can accept the period (the same owner the service checks)
+    const owner = await rotationService.getCurrentForumOwner();
+    if (owner.id !== userId) {
+      await slackService.sendEphemeralMessage(userId, `🚫 Only <@${owner.id}> can confirm this period.`);
+      return;
+    }
+
+    await rotationService.confirmPresenter(userId);
+    if (messageTs) {
+      await this.refreshMessage(context, messageTs);
+    }
+
+    console.log(`Presenter ${userId} confirmed from the rotation message`);
+  }
+
+  private async openArticleForm({ context, messageTs, triggerId }: ActionInteraction): Promise<void> {
+    // Prefilled with any article already shared this period
+    const { article } = await context.rotationService.getNotificationStatus();
+    const result = await context.slackService.openArticleModal(triggerId!, messageTs, article);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  private async confirmFromReminder(interaction: ActionInteraction): Promise<void> {
+    const { context, userId, channelId, messageTs } = interaction;
+    if (await this.isStaleReminder(interaction)) {
+      return;
+    }
+
+    await context.rotationService.confirmPresenter(userId);
+    await context.slackService.updateDirectMessage(channelId!, messageTs!, "✅ Thanks, you're confirmed as this period's presenter!");
+
+    console.log(`Presenter ${userId} confirmed from reminder`);
+  }
+
+  private async declineFromReminder(interaction: ActionInteraction): Promise<void> {
+    const { context, userId, channelId, messageTs } = interaction;
+    const { rotationService, slackService } = context;
+    if (await this.isStaleReminder(interaction)) {
+      return;
+    }
+
+    const skip = await rotationService.declinePresenting(userId);
+    if (!skip.duplicate) {
+      await slackService.sendPublicMessage(slackService.formatSkipConfirmation(userId, skip));
+    }
+    await slackService.updateDirectMessage(channelId!, messageTs!, `👍 No problem, <@${skip.newUser.id}> will present instead.`);
+
+    console.log(`Presenter ${userId} declined from reminder. New emcee: ${skip.newUser.id}`);
+  }
+
+  /**
+   * Reminder buttons only answer for the period the reminder was sent for, so a reminder still
+   * in someone's DMs can't confirm or skip them in a later one
+   */
+  private async isStaleReminder({ context, value, userId, channelId }: ActionInteraction): Promise<boolean> {
+    const { store, rotationService, slackService } = context;
+    const state = await store.loadRotationState();
+    const currentPeriod = rotationService.getCurrentPeriod(state).startDate.toISOString().substring(0, 10);
+
+    const period = this.getActionPeriod(value);
+    if (period === currentPeriod) {
+      return false;
+    }
+
+    await slackService.sendEphemeralMessage(userId, "⌛ That reminder was for an earlier period, so it can't confirm or skip you now.", channelId);
+    console.log(`Ignoring a reminder button from ${userId} for the period starting ${period} (now ${currentPeriod})`);
+    return true;
+  }
+
+  /**
+   * `/skip-rotation [rotation-id]`, defaulting to the rotation that posts in this channel:
+   * skip the presenter and post a fresh rotation message
+   */
+  private async skipFromSlashCommand(input: SlashCommandInput): Promise<CommandResponse | undefined> {
+    const requestedRotationId = input.text.trim() || this.registry.findRotationByChannel(input.channelId)?.id;
+    if (requestedRotationId && !this.registry.hasRotation(requestedRotationId)) {
+      return {
+        responseType: 'ephemeral',
+        text: `Unknown rotation "${requestedRotationId}". Known rotations: ${this.registry.getRotationIds().join(', ')}`,
+      };
+    }
+
+    const { slackService, rotationService } = this.registry.getContext(requestedRotationId);
+
+    try {
+      const decision = await rotationService.checkPermission('skip', input.userId);
+      if (!decision.allowed) {
+        return { responseType: 'ephemeral', text: `🚫 ${decision.reason}` };
+      }
+
+      const skip = await rotationService.skipCurrentUser(input.userId);
+      const state = await rotationService.getStorageService().loadRotationState();
+      const periodInfo = rotationService.getCurrentPeriod(state);
+      const status = await rotationService.getNotificationStatus();
+
+      // Remembered so a confirmation deadline can update it
+      const notification = await slackService.sendRotationNotification(skip.newUser, periodInfo, state.config, status);
+      if (notification.success && notification.messageTs) {
+        await rotationService.recordNotification(notification.messageTs, slackService.getChannelId());
+      }
+      await slackService.sendPublicMessage(slackService.formatSkipConfirmation(input.userId, skip));
+
+      console.log(`Rotation skipped via slash command by user ${input.userId}. New emcee: ${skip.newUser.id}`);
+      return undefined;
+    } catch (error) {
+      console.error('Error handling skip rotation slash command:', error);
+      await slackService.sendPublicMessage(
+        `❌ <@${input.userId}> tried to skip the rotation, but there was an error. Please try again or contact an admin.`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Re-render the rotation message after a change, with the current presenter, roles and status
+   */
+  private async refreshMessage(context: RotationContext, messageTs: string): Promise<void> {
+    const { rotationService, slackService } = context;
+    const owner = await rotationService.getCurrentForumOwner();
+    const state = await rotationService.getStorageService().loadRotationState();
+    const periodInfo = rotationService.getCurrentPeriod(state);
+    const status = await rotationService.getNotificationStatus();
+
+    await slackService.updateMessage(messageTs, owner, periodInfo, state.config, status);
+  }
+
+  /**
+   * Tell the user an action failed: on the reminder DM, privately, or in the channel
+   */
+  private async reportActionError(interaction: ActionInteraction, error: Error): Promise<void> {
+    const { context, actionId, userId, channelId, messageTs } = interaction;
+
+    try {
+      if (actionId.startsWith('reminder_')) {
+        await context.slackService.updateDirectMessage(channelId!, messageTs!, `❌ ${error.message}`);
+        return;
+      }
+
+      const description = ACTION_DESCRIPTIONS[actionId.split(':')[0]!];
+      if (!description) {
+        await context.slackService.sendEphemeralMessage(userId, `❌ ${error.message}`);
+        return;
+      }
+
+      await context.slackService.sendPublicMessage(
+        `❌ <@${userId}> tried to ${description}, but there was an error. Please try again or contact an admin.`
+      );
+    } catch (reportError) {
+      console.error('Error sending error message:', reportError);
+    }
+  }
+
+  /**
+   * Read the rotation ID from a button's JSON value (older messages have none)
+   */
+  private getActionRotationId(value?: string): string | undefined {
+    try {
+      return JSON.parse(value || '{}').rotationId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the period a reminder button was sent for
+   */
+  private getActionPeriod(value?: string): string | undefined {
+    try {
+      return JSON.parse(value || '{}').period;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the rotation ID from a modal's private metadata
+   */
+  private getViewRotationId(view: any): string | undefined {
+    try {
+      return JSON.parse(view.private_metadata || '{}').rotationId;
+    } catch {
+      return undefined;
+    }
+  }
+}
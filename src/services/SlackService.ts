@@ -1,22 +1,38 @@
 import { WebClient } from '@slack/web-api';
-import { User, NotificationResult, WeekInfo, PeriodInfo, RotationConfig } from '../types';
+import { User, NotificationResult, WeekInfo, PeriodInfo, RotationConfig, RotationHistoryEntry, PeriodPresenter, SkipResult, DueReminder, Article, ArticleSubmission, NotificationStatus, ScheduledPeriod } from '../types';
+import { escapeMrkdwn, formatArticleLink } from '../utils/articles';
 import { formatDateRange } from '../utils/dateUtils';
+import { resolveMessageTemplate } from '../utils/messageTemplates';
 
 export class SlackService {
   private client: WebClient;
   private channelId: string;
+  private rotationId?: string;
 
-  constructor(botToken: string, channelId: string) {
+  constructor(botToken: string, channelId: string, rotationId?: string) {
     this.client = new WebClient(botToken);
     this.channelId = channelId;
+    this.rotationId = rotationId;
   }
 
   /**
-   * Send rotation notification to Slack channel for staff documentation rotation
+   * The channel rotation messages are posted to
    */
-  async sendRotationNotification(user: User, periodInfo: PeriodInfo | WeekInfo, config?: RotationConfig): Promise<NotificationResult> {
+  getChannelId(): string {
+    return this.channelId;
+  }
+
+  /**
+   * Send rotation notification to Slack channel, rendered with the rotation's message template
+   */
+  async sendRotationNotification(
+    user: User,
+    periodInfo: PeriodInfo | WeekInfo,
+    config?: RotationConfig,
+    status: NotificationStatus = {}
+  ): Promise<NotificationResult> {
     try {
-      const message = this.formatStaffDocRotationMessage(user, periodInfo, config);
+      const message = this.formatNotificationMessage(user, periodInfo, config, status);
       
       const result = await this.client.chat.postMessage({
         channel: this.channelId,
@@ -92,79 +108,212 @@ export class SlackService {
   }
 
   /**
-   * Format the staff documentation rotation message with rich Slack blocks
+   * Resolve display names by user ID: the Slack real name, else the configured name or the ID
+   */
+  async getDisplayNames(users: User[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const user of users) {
+      if (!names.has(user.id)) {
+        const userInfo = await this.getUserInfo(user.id);
+        names.set(user.id, userInfo?.realName || userInfo?.name || user.name || user.id);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Format the rotation notification with rich Slack blocks, using the rotation's message template
    */
-  private formatStaffDocRotationMessage(user: User, periodInfo: PeriodInfo | WeekInfo, config?: RotationConfig) {
+  private formatNotificationMessage(
+    user: User,
+    periodInfo: PeriodInfo | WeekInfo,
+    config?: RotationConfig,
+    status: NotificationStatus = {}
+  ) {
+    const { confirmed = false, article, roles = [] } = status;
     const dateRange = formatDateRange(periodInfo.startDate, periodInfo.endDate);
-    
-    const blocks = [
-      {
+    const periodHeading = `${this.getPeriodType(periodInfo, config)} ${dateRange}`;
+    const template = resolveMessageTemplate(config);
+    const responsibilitiesText = [
+      template.responsibilitiesHeading,
+      ...template.responsibilities,
+    ].filter(line => line !== '');
+
+    const blocks: any[] = [];
+
+    if (template.title) {
+      blocks.push({
         type: 'header',
         text: {
           type: 'plain_text',
-          text: '📄 Staff Documentation Rotation',
+          text: template.title,
           emoji: true,
         },
+      });
+    }
+
+    // With roles, one line per role (the presenter's first) instead of the owner label
+    const ownerLines = roles.length > 0
+      ? roles.map((assignment, i) => `${assignment.role.name}: <@${assignment.user.id}>${i === 0 && confirmed ? ' ✅ Confirmed' : ''}`)
+      : [`${template.ownerLabel}: <@${user.id}>${confirmed ? ' ✅ Confirmed' : ''}`];
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${periodHeading}*\n\n${ownerLines.join('\n')}`,
       },
-      {
+    });
+
+    if (template.responsibilities.length > 0) {
+      blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Week of ${dateRange}*\n\nThis week's article presenter: <@${user.id}>`,
+          text: template.responsibilitiesHeading
+            ? [`*${template.responsibilitiesHeading}*`, ...template.responsibilities].join('\n')
+            : template.responsibilities.join('\n'),
         },
-      },
-      {
+      });
+    }
+
+    if (article) {
+      blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Reminder for Wednesday's staff meeting:*\n• Please prepare an interesting article to share\n• 5-10 minute presentation/discussion\n• Focus on industry trends, best practices, or innovation\n• Share the article link in advance if possible`,
+          text: [`*📰 Article:* ${formatArticleLink(article)}`, ...(article.summary ? [escapeMrkdwn(article.summary)] : [])].join('\n'),
         },
+      });
+    }
+
+    // Confirming only matters with a deadline, and until the presenter has confirmed
+    const confirmButton = {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '👍 Confirm',
+        emoji: true,
       },
-      {
-        type: 'actions',
-        elements: [
-          {
-            type: 'button',
-            text: {
-              type: 'plain_text',
-              text: '⏭️ Skip to Next',
-              emoji: true,
-            },
-            style: 'primary',
-            action_id: 'skip_rotation',
-            value: JSON.stringify({
-              action: 'skip',
-              currentUserId: user.id,
-              timestamp: Date.now(),
-            }),
+      action_id: 'confirm_presenter',
+      value: JSON.stringify({
+        action: 'confirm',
+        rotationId: this.rotationId,
+        currentUserId: user.id,
+        timestamp: Date.now(),
+      }),
+    };
+
+    const articleButton = {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: article ? '📝 Change Article' : '📝 Submit Article',
+        emoji: true,
+      },
+      action_id: 'submit_article',
+      value: JSON.stringify({
+        action: 'submit_article',
+        rotationId: this.rotationId,
+        currentUserId: user.id,
+        timestamp: Date.now(),
+      }),
+    };
+
+    blocks.push({
+      type: 'actions',
+      elements: [
+        ...(confirmed || !config?.confirmationDeadline ? [] : [confirmButton]),
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: roles[0] ? `⏭️ Skip ${roles[0].role.name}` : '⏭️ Skip to Next',
+            emoji: true,
           },
-          {
-            type: 'button',
-            text: {
-              type: 'plain_text',
-              text: '📅 Show Schedule',
-              emoji: true,
-            },
-            action_id: 'show_schedule',
-            value: JSON.stringify({
-              action: 'show_schedule',
-              timestamp: Date.now(),
-            }),
+          style: 'primary',
+          action_id: 'skip_rotation',
+          value: JSON.stringify({
+            action: 'skip',
+            rotationId: this.rotationId,
+            currentUserId: user.id,
+            timestamp: Date.now(),
+          }),
+        },
+        ...roles.slice(1).map(assignment => ({
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: `⏭️ Skip ${assignment.role.name}`,
+            emoji: true,
           },
-        ],
-      },
-      {
+          action_id: `skip_role:${assignment.role.id}`,
+          value: JSON.stringify({
+            action: 'skip_role',
+            rotationId: this.rotationId,
+            roleId: assignment.role.id,
+            currentUserId: assignment.user.id,
+            timestamp: Date.now(),
+          }),
+        })),
+        ...(config?.articles ? [articleButton] : []),
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '📅 Show Schedule',
+            emoji: true,
+          },
+          action_id: 'show_schedule',
+          value: JSON.stringify({
+            action: 'show_schedule',
+            rotationId: this.rotationId,
+            timestamp: Date.now(),
+          }),
+        },
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '📜 History',
+            emoji: true,
+          },
+          action_id: 'show_history',
+          value: JSON.stringify({
+            action: 'show_history',
+            rotationId: this.rotationId,
+            timestamp: Date.now(),
+          }),
+        },
+      ],
+    });
+
+    if (template.callToAction) {
+      blocks.push({
         type: 'context',
         elements: [
           {
             type: 'mrkdwn',
-            text: 'Questions? Reach out to this week\'s presenter! 📚',
+            text: template.callToAction,
           },
         ],
-      },
-    ];
+      });
+    }
 
-    const fallbackText = `📄 Staff Documentation Rotation\nWeek of ${dateRange}\n\nThis week's article presenter: ${user.name || user.id}\n\nReminder for Wednesday's staff meeting:\n• Please prepare an interesting article to share\n• 5-10 minute presentation/discussion\n• Focus on industry trends, best practices, or innovation\n• Share the article link in advance if possible\n\nQuestions? Reach out to this week's presenter! 📚`;
+    const fallbackText = [
+      template.title,
+      periodHeading,
+      '',
+      ...(roles.length > 0
+        ? roles.map((assignment, i) => `${assignment.role.name}: ${assignment.user.name || assignment.user.id}${i === 0 && confirmed ? ' (confirmed)' : ''}`)
+        : [`${template.ownerLabel}: ${user.name || user.id}${confirmed ? ' (confirmed)' : ''}`]),
+      ...(template.responsibilities.length > 0 ? ['', ...responsibilitiesText] : []),
+      ...(article ? ['', escapeMrkdwn(`Article: ${article.title} (${article.url})`)] : []),
+      ...(template.callToAction ? ['', template.callToAction] : []),
+    ]
+      .filter((line, index) => index > 0 || line !== '')
+      .join('\n');
 
     return {
       blocks,
@@ -249,15 +398,20 @@ export class SlackService {
   }
 
   /**
-   * Format upcoming schedule message
+   * Format upcoming schedule message, labelled with the rotation's message template and period length
    */
-  async formatScheduleMessage(schedule: Array<{ user: User; periodInfo: PeriodInfo; periodNumber: number }>): Promise<{ blocks: any[]; fallbackText: string }> {
+  async formatScheduleMessage(schedule: ScheduledPeriod[], config?: RotationConfig): Promise<{ blocks: any[]; fallbackText: string }> {
+    const template = resolveMessageTemplate(config);
+    const heading = template.title ? `${template.title} — Upcoming Schedule` : '📅 Upcoming Schedule';
+    const ownerLabel = template.ownerLabel || 'Presenter';
+    const periodLabel = this.getPeriodLabel(config);
+
     const blocks = [
       {
         type: 'header',
         text: {
           type: 'plain_text',
-          text: '📅 Upcoming Article Presentation Schedule',
+          text: heading,
           emoji: true,
         },
       },
@@ -266,6 +420,28 @@ export class SlackService {
     // Add schedule items
     for (const item of schedule) {
       const dateRange = formatDateRange(item.periodInfo.startDate, item.periodInfo.endDate);
+      if (item.blackout) {
+        blocks.push({
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${periodLabel} ${item.periodNumber}* (${dateRange})\n🚫 No meeting${item.blackout.reason ? ` — ${item.blackout.reason}` : ''}`,
+          },
+        } as any);
+        continue;
+      }
+
+      if (item.roles) {
+        blocks.push({
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${periodLabel} ${item.periodNumber}* (${dateRange})\n${item.roles.map(({ role, user }) => `${role.name}: <@${user.id}>`).join(' · ')}`,
+          },
+        } as any);
+        continue;
+      }
+
       const userInfo = await this.getUserInfo(item.user.id);
       const displayName = userInfo?.name || item.user.name || item.user.id;
       
@@ -273,7 +449,7 @@ export class SlackService {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Week ${item.periodNumber}* (${dateRange})\n<@${item.user.id}> (${displayName}) - Article presenter`,
+          text: `*${periodLabel} ${item.periodNumber}* (${dateRange})\n<@${item.user.id}> (${displayName}) - ${ownerLabel}`,
         },
       } as any);
     }
@@ -281,21 +457,27 @@ export class SlackService {
     const fallbackText = schedule
       .map(item => {
         const dateRange = formatDateRange(item.periodInfo.startDate, item.periodInfo.endDate);
-        return `Week ${item.periodNumber} (${dateRange}): ${item.user.name || item.user.id} - Article presenter`;
+        if (item.blackout) {
+          return `${periodLabel} ${item.periodNumber} (${dateRange}): No meeting${item.blackout.reason ? ` (${item.blackout.reason})` : ''}`;
+        }
+        if (item.roles) {
+          return `${periodLabel} ${item.periodNumber} (${dateRange}): ${item.roles.map(({ role, user }) => `${role.name}: ${user.name || user.id}`).join(', ')}`;
+        }
+        return `${periodLabel} ${item.periodNumber} (${dateRange}): ${item.user.name || item.user.id} - ${ownerLabel}`;
       })
       .join('\n');
 
     return {
       blocks,
-      fallbackText: `Upcoming Article Presentation Schedule:\n${fallbackText}`,
+      fallbackText: `${heading}:\n${fallbackText}`,
     };
   }
 
   /**
    * Send schedule as ephemeral message (only visible to the user who clicked)
    */
-  async sendScheduleMessage(userId: string, schedule: Array<{ user: User; periodInfo: PeriodInfo; periodNumber: number }>): Promise<void> {
-    const { blocks, fallbackText } = await this.formatScheduleMessage(schedule);
+  async sendScheduleMessage(userId: string, schedule: ScheduledPeriod[], config?: RotationConfig): Promise<void> {
+    const { blocks, fallbackText } = await this.formatScheduleMessage(schedule, config);
     
     await this.client.chat.postEphemeral({
       channel: this.channelId,
@@ -305,25 +487,118 @@ export class SlackService {
     });
   }
 
+  /**
+   * Format rotation history: who presented each period, plus the most recent actions
+   */
+  formatHistoryMessage(
+    summary: PeriodPresenter[],
+    entries: RotationHistoryEntry[]
+  ): { blocks: any[]; fallbackText: string } {
+    const presenterLines = summary.map(item =>
+      item.presenterId === item.assignedUserId
+        ? `• ${item.period}: <@${item.presenterId}>`
+        : `• ${item.period}: <@${item.presenterId}> (assigned <@${item.assignedUserId}>)`
+    );
+    const actionLines = entries.map(entry => {
+      const actor = entry.actorId ? ` by <@${entry.actorId}>` : '';
+      const when = entry.timestamp.substring(0, 16).replace('T', ' ');
+      switch (entry.action) {
+        case 'skip':
+          return `• ${when} — skipped <@${entry.assignedUserId}> → <@${entry.presenterId}>${entry.role ? ` as ${entry.role}` : ''}${actor}`;
+        case 'set':
+          return `• ${when} — set presenter to <@${entry.presenterId}>${actor}`;
+        case 'unavailable':
+          return `• ${when} — <@${entry.assignedUserId}> out of office → <@${entry.presenterId}>`;
+        case 'unconfirmed':
+          return `• ${when} — <@${entry.assignedUserId}> didn't confirm → <@${entry.presenterId}>`;
+        case 'remove':
+          return entry.presenterId === entry.assignedUserId
+            ? `• ${when} — removed <@${entry.removedUserId}>${actor}`
+            : `• ${when} — removed <@${entry.removedUserId}> → <@${entry.presenterId}>${actor}`;
+        default:
+          return `• ${when} — rotated to <@${entry.presenterId}>${actor}`;
+      }
+    });
+
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '📜 Rotation History',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Presenters by period*\n${presenterLines.join('\n') || '_No history recorded yet_'}`,
+        },
+      },
+    ];
+
+    if (actionLines.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Recent changes*\n${actionLines.join('\n')}`,
+        },
+      });
+    }
+
+    const fallbackText = `Rotation History:\n${[...presenterLines, ...actionLines].join('\n') || 'No history recorded yet'}`;
+
+    return { blocks, fallbackText };
+  }
+
+  /**
+   * Send rotation history as ephemeral message (only visible to the user who clicked)
+   */
+  async sendHistoryMessage(
+    userId: string,
+    summary: PeriodPresenter[],
+    entries: RotationHistoryEntry[]
+  ): Promise<void> {
+    const { blocks, fallbackText } = this.formatHistoryMessage(summary, entries);
+
+    await this.client.chat.postEphemeral({
+      channel: this.channelId,
+      user: userId,
+      blocks,
+      text: fallbackText,
+    });
+  }
+
   /**
    * Get period type description
    */
   private getPeriodType(periodInfo: PeriodInfo | WeekInfo, config?: RotationConfig): string {
-    if (!config) return 'Week of';
+    return `${this.getPeriodLabel(config)} of`;
+  }
+
+  /**
+   * What one period of the rotation is called, e.g. "Week" or "Month"
+   */
+  private getPeriodLabel(config?: RotationConfig): string {
+    if (!config) return 'Week';
     
     switch (config.frequency) {
       case 'daily':
-        return 'Day of';
+        return 'Day';
       case 'weekly':
-        return 'Week of';
+        return 'Week';
       case 'bi-weekly':
-        return 'Bi-week of';
+        return 'Bi-week';
       case 'monthly':
-        return 'Month of';
+        return 'Month';
       case 'custom':
-        return `${config.interval}-day period of`;
+        return `${config.interval}-day period`;
+      case 'rrule':
+        return 'Session';
       default:
-        return 'Period of';
+        return 'Period';
     }
   }
 
@@ -371,6 +646,26 @@ export class SlackService {
     }
   }
 
+  /**
+   * Format the public confirmation posted after someone skips the rotation
+   */
+  formatSkipConfirmation(actorId: string, skip: Pick<SkipResult, 'skippedUser' | 'newUser' | 'mode' | 'role'>): string {
+    if (skip.role) {
+      return `✅ <@${skip.skippedUser.id}> was skipped as ${skip.role.name} by <@${actorId}>! <@${skip.newUser.id}> is ${skip.role.name} now.`;
+    }
+
+    const text = `✅ Rotation skipped by <@${actorId}>! Next emcee is now <@${skip.newUser.id}>.`;
+
+    if (skip.mode === 'defer') {
+      return `${text} <@${skip.skippedUser.id}> keeps their turn and will present next.`;
+    }
+    if (skip.mode === 'swap') {
+      return `${text} <@${skip.skippedUser.id}> swapped places with them and presents in their slot.`;
+    }
+
+    return text;
+  }
+
   /**
    * Send a simple text message (for testing or fallback)
    */
@@ -398,11 +693,17 @@ export class SlackService {
   }
 
   /**
-   * Update an existing message with new content
+   * Update an existing message with new content, including whether the presenter confirmed and their article
    */
-  async updateMessage(messageTs: string, user: User, periodInfo: PeriodInfo | WeekInfo, config?: RotationConfig): Promise<NotificationResult> {
+  async updateMessage(
+    messageTs: string,
+    user: User,
+    periodInfo: PeriodInfo | WeekInfo,
+    config?: RotationConfig,
+    status: NotificationStatus = {}
+  ): Promise<NotificationResult> {
     try {
-      const message = this.formatStaffDocRotationMessage(user, periodInfo, config);
+      const message = this.formatNotificationMessage(user, periodInfo, config, status);
       
       const result = await this.client.chat.update({
         channel: this.channelId,
@@ -428,12 +729,252 @@ export class SlackService {
   }
 
   /**
-   * Send an ephemeral message (only visible to the user who clicked)
+   * DM the presenter a reminder with "I've got it" / "I can't make it" buttons
+   */
+  async sendReminderMessage(reminder: DueReminder): Promise<NotificationResult> {
+    try {
+      // Open (or reuse) the bot's IM channel with the presenter
+      const conversation = await this.client.conversations.open({ users: reminder.user.id });
+      const imChannelId = conversation.channel?.id;
+      if (!conversation.ok || !imChannelId) {
+        throw new Error(`Slack API error: ${conversation.error || 'Could not open a DM'}`);
+      }
+
+      const message = this.formatReminderMessage(reminder);
+      const result = await this.client.chat.postMessage({
+        channel: imChannelId,
+        blocks: message.blocks,
+        text: message.fallbackText,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error || 'Unknown error'}`);
+      }
+
+      return {
+        success: true,
+        messageTs: result.ts,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Format the presenter reminder DM
+   */
+  formatReminderMessage(reminder: DueReminder): { blocks: any[]; fallbackText: string } {
+    const meetingTime = reminder.meetingAt.toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'UTC', // meetingAt holds the wall-clock time of the rotation timezone
+    });
+    const text = `👋 Reminder: you're presenting ${meetingTime}.`;
+    const value = JSON.stringify({
+      rotationId: this.rotationId,
+      userId: reminder.user.id,
+      period: reminder.periodInfo.startDate.toISOString().substring(0, 10),
+    });
+
+    const blocks = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: "✅ I've got it",
+              emoji: true,
+            },
+            style: 'primary',
+            action_id: 'reminder_confirm',
+            value,
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: "🙅 I can't make it",
+              emoji: true,
+            },
+            style: 'danger',
+            action_id: 'reminder_decline',
+            value,
+          },
+        ],
+      },
+    ];
+
+    return { blocks, fallbackText: text };
+  }
+
+  /**
+   * Replace a message outside the rotation channel (e.g. a reminder DM) with plain text
    */
-  async sendEphemeralMessage(userId: string, text: string): Promise<NotificationResult> {
+  async updateDirectMessage(channelId: string, messageTs: string, text: string): Promise<NotificationResult> {
+    try {
+      const result = await this.client.chat.update({
+        channel: channelId,
+        ts: messageTs,
+        text,
+        blocks: [],
+      });
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error || 'Unknown error'}`);
+      }
+
+      return {
+        success: true,
+        messageTs: result.ts,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Open the "Submit article" modal, prefilled with the period's article if there is one.
+   * The rotation message's timestamp rides along so it can be updated on submit.
+   */
+  async openArticleModal(triggerId: string, messageTs?: string, article?: Article): Promise<NotificationResult> {
+    try {
+      const result = await this.client.views.open({
+        trigger_id: triggerId,
+        view: {
+          type: 'modal',
+          callback_id: 'submit_article_modal',
+          private_metadata: JSON.stringify({ rotationId: this.rotationId, messageTs }),
+          title: { type: 'plain_text', text: 'Submit Article' },
+          submit: { type: 'plain_text', text: 'Share' },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [
+            {
+              type: 'input',
+              block_id: 'article_title',
+              label: { type: 'plain_text', text: 'Title' },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'value',
+                max_length: 200,
+                ...(article ? { initial_value: article.title } : {}),
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'article_url',
+              label: { type: 'plain_text', text: 'Link' },
+              element: {
+                type: 'url_text_input',
+                action_id: 'value',
+                ...(article ? { initial_value: article.url } : {}),
+              },
+            },
+            {
+              type: 'input',
+              block_id: 'article_summary',
+              optional: true,
+              label: { type: 'plain_text', text: 'Summary' },
+              element: {
+                type: 'plain_text_input',
+                action_id: 'value',
+                multiline: true,
+                max_length: 1000,
+                ...(article?.summary ? { initial_value: article.summary } : {}),
+              },
+            },
+          ],
+        },
+      });
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error || 'Unknown error'}`);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Read the article and the originating message from a submitted "Submit article" modal
+   */
+  readArticleSubmission(view: any): { submission: ArticleSubmission; messageTs?: string } {
+    const values = view?.state?.values || {};
+    const { messageTs } = JSON.parse(view?.private_metadata || '{}');
+
+    return {
+      submission: {
+        title: values.article_title?.value?.value || '',
+        url: values.article_url?.value?.value || '',
+        summary: values.article_summary?.value?.value || undefined,
+      },
+      messageTs,
+    };
+  }
+
+  /**
+   * Format a list of articles from the archive
+   */
+  formatArticlesMessage(articles: Article[], query?: string): { blocks: any[]; fallbackText: string } {
+    const heading = query ? `📚 Articles matching "${escapeMrkdwn(query)}"` : '📚 Article Archive';
+    const lines = articles.map(article => `• ${article.period} ${formatArticleLink(article)} — <@${article.userId}>`);
+    const results = lines.join('\n') || (query ? '_No articles match that search_' : '_No articles shared yet_');
+    // The query goes in the section: a header is plain text capped at 150 characters
+    const body = query ? `Matching *"${escapeMrkdwn(query)}"*\n\n${results}` : results;
+
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '📚 Article Archive',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: body,
+        },
+      },
+    ];
+
+    const fallbackText = `${heading}:\n${articles.map(article => escapeMrkdwn(`${article.period} ${article.title} (${article.url})`)).join('\n') || 'None'}`;
+
+    return { blocks, fallbackText };
+  }
+
+  /**
+   * Send an ephemeral message (only visible to the user who clicked), in the rotation's channel
+   * unless another one (such as the DM the button was in) is given
+   */
+  async sendEphemeralMessage(userId: string, text: string, channelId: string = this.channelId): Promise<NotificationResult> {
     try {
       const result = await this.client.chat.postEphemeral({
-        channel: this.channelId,
+        channel: channelId,
         user: userId,
         text,
       });
@@ -1,23 +1,41 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { RotationState, User, RotationConfig } from '../types';
+import { RotationState, RotationConfig, RotationHistoryEntry, Article, MessageConfig, ReminderConfig, User } from '../types';
+import { BaseRotationStore } from './BaseRotationStore';
+import { DEFAULT_PERMISSIONS } from '../utils/permissions';
+import { parseReminderOffset } from '../utils/reminders';
+import { parseRecurrenceRule } from '../utils/recurrence';
+import { getBlackoutRangeError } from '../utils/blackouts';
+import { getRolesError } from '../utils/roles';
+
+export class StorageService extends BaseRotationStore {
+  private static readonly LOCK_TIMEOUT_MS = 5000;
+  private static readonly LOCK_STALE_MS = 30000;
 
-export class StorageService {
   private usersFilePath: string;
   private stateFilePath: string;
+  private historyFilePath: string;
+  private articlesFilePath: string;
 
-  constructor(usersFilePath: string, stateFilePath: string) {
+  constructor(usersFilePath: string, stateFilePath: string, historyFilePath?: string, articlesFilePath?: string) {
+    super();
     this.usersFilePath = usersFilePath;
     this.stateFilePath = stateFilePath;
+    this.historyFilePath =
+      historyFilePath || path.join(path.dirname(stateFilePath), 'rotation-history.json');
+    this.articlesFilePath =
+      articlesFilePath || path.join(path.dirname(stateFilePath), 'rotation-articles.json');
   }
 
   /**
-   * Load rotation state from file
+   * Load rotation state from file.
+   * The users file holds the seed state; anything saved to the state file overrides it.
    */
   async loadRotationState(): Promise<RotationState> {
     try {
       const data = await fs.readFile(this.usersFilePath, 'utf-8');
-      const state = JSON.parse(data) as RotationState;
+      const savedState = await this.readJsonFile<Partial<RotationState>>(this.stateFilePath);
+      const state = { ...(JSON.parse(data) as RotationState), ...savedState };
       
       // Backwards compatibility: Add default config if missing
       if (!state.config) {
@@ -56,84 +74,139 @@ export class StorageService {
     try {
       // Validate before saving
       this.validateRotationState(state);
-      
-      // Ensure directory exists
-      await fs.mkdir(path.dirname(this.stateFilePath), { recursive: true });
-      
-      // Write to temporary file first, then rename for atomicity
-      const tempFile = `${this.stateFilePath}.tmp`;
-      await fs.writeFile(tempFile, JSON.stringify(state, null, 2), 'utf-8');
-      await fs.rename(tempFile, this.stateFilePath);
+      await this.writeJsonFile(this.stateFilePath, state);
     } catch (error) {
       throw new Error(`Failed to save rotation state: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Update only the current index and last rotation date
+   * Save rotation state only if the file still holds the expected version.
+   * A lock file makes the check and the write atomic across processes.
    */
-  async updateRotationState(currentIndex: number, lastRotationDate: string): Promise<void> {
-    const state = await this.loadRotationState();
-    state.currentIndex = currentIndex;
-    state.lastRotationDate = lastRotationDate;
-    await this.saveRotationState(state);
+  async compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean> {
+    return this.withStateLock(async () => {
+      const current = await this.loadRotationState();
+      if ((current.version || 0) !== (expected.version || 0)) {
+        return false;
+      }
+
+      await this.saveRotationState(next);
+      return true;
+    });
   }
 
   /**
-   * Add a new user to the rotation
+   * Run `fn` while holding an exclusive lock file next to the state file
    */
-  async addUser(user: User): Promise<void> {
-    const state = await this.loadRotationState();
-    
-    // Check if user already exists
-    const existingUser = state.users.find(u => u.id === user.id);
-    if (existingUser) {
-      throw new Error(`User with ID ${user.id} already exists in rotation`);
+  private async withStateLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockFile = `${this.stateFilePath}.lock`;
+    const deadline = Date.now() + StorageService.LOCK_TIMEOUT_MS;
+
+    await fs.mkdir(path.dirname(lockFile), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+
+        // A lock left behind by a crashed process would otherwise block every write
+        const lockStat = await fs.stat(lockFile).catch(() => undefined);
+        if (lockStat && Date.now() - lockStat.mtimeMs > StorageService.LOCK_STALE_MS) {
+          await fs.rm(lockFile, { force: true });
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for rotation state lock: ${lockFile}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockFile, { force: true });
     }
-    
-    state.users.push(user);
-    await this.saveRotationState(state);
   }
 
   /**
-   * Remove a user from the rotation
+   * Append an entry to the history file
    */
-  async removeUser(userId: string): Promise<void> {
-    const state = await this.loadRotationState();
-    const userIndex = state.users.findIndex(u => u.id === userId);
-    
-    if (userIndex === -1) {
-      throw new Error(`User with ID ${userId} not found in rotation`);
-    }
-    
-    // Adjust current index if necessary
-    if (userIndex < state.currentIndex) {
-      state.currentIndex--;
-    } else if (userIndex === state.currentIndex && state.currentIndex >= state.users.length - 1) {
-      state.currentIndex = 0;
+  async appendHistory(entry: RotationHistoryEntry): Promise<void> {
+    try {
+      await this.withStateLock(async () => {
+        const history = (await this.readJsonFile<RotationHistoryEntry[]>(this.historyFilePath)) || [];
+        history.push(entry);
+        await this.writeJsonFile(this.historyFilePath, history);
+      });
+    } catch (error) {
+      throw new Error(`Failed to append rotation history: ${(error as Error).message}`);
     }
-    
-    state.users.splice(userIndex, 1);
-    
-    if (state.users.length === 0) {
-      throw new Error('Cannot remove last user from rotation');
+  }
+
+  /**
+   * Get rotation history, oldest first (optionally only the most recent `limit` entries)
+   */
+  async getHistory(limit?: number): Promise<RotationHistoryEntry[]> {
+    const history = (await this.readJsonFile<RotationHistoryEntry[]>(this.historyFilePath)) || [];
+    return limit === undefined ? history : history.slice(Math.max(history.length - limit, 0));
+  }
+
+  /**
+   * Save the period's article to the articles file, replacing any earlier submission
+   */
+  async saveArticle(article: Article): Promise<void> {
+    try {
+      await this.withStateLock(async () => {
+        const articles = (await this.readJsonFile<Article[]>(this.articlesFilePath)) || [];
+        const others = articles.filter(existing => existing.period !== article.period);
+        await this.writeJsonFile(
+          this.articlesFilePath,
+          [...others, article].sort((a, b) => a.period.localeCompare(b.period))
+        );
+      });
+    } catch (error) {
+      throw new Error(`Failed to save article: ${(error as Error).message}`);
     }
-    
-    await this.saveRotationState(state);
   }
 
   /**
-   * Get current user in rotation
+   * Get every saved article, oldest period first
    */
-  async getCurrentUser(): Promise<User> {
-    const state = await this.loadRotationState();
-    
-    if (state.users.length === 0) {
-      throw new Error('No users found in rotation');
+  async getArticles(): Promise<Article[]> {
+    return (await this.readJsonFile<Article[]>(this.articlesFilePath)) || [];
+  }
+
+  /**
+   * Read a JSON file, returning undefined if it does not exist
+   */
+  private async readJsonFile<T>(filePath: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
     }
-    
-    const currentIndex = state.currentIndex % state.users.length;
-    return state.users[currentIndex]!;
+  }
+
+  /**
+   * Write a JSON file via a temporary file and rename for atomicity
+   */
+  private async writeJsonFile(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempFile = `${filePath}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempFile, filePath);
   }
 
   /**
@@ -168,6 +241,47 @@ export class StorageService {
       if (!user.id || !user.startDate) {
         throw new Error(`Invalid user at index ${index}: missing required fields (id, startDate)`);
       }
+      
+      if (isNaN(Date.parse(user.startDate))) {
+        throw new Error(`Invalid startDate for user ${user.id}: ${user.startDate}`);
+      }
+      
+      if (user.endDate !== undefined) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(user.endDate) || isNaN(Date.parse(user.endDate))) {
+          throw new Error(`Invalid endDate for user ${user.id}: must be a YYYY-MM-DD date`);
+        }
+        if (user.endDate < user.startDate.substring(0, 10)) {
+          throw new Error(`Invalid endDate for user ${user.id}: ${user.endDate} is before their startDate`);
+        }
+      }
+      
+      if (user.unavailable !== undefined) {
+        this.validateUnavailableRanges(user);
+      }
+      
+      if (user.weight !== undefined && (typeof user.weight !== 'number' || !(user.weight >= 0))) {
+        throw new Error(`Invalid weight for user ${user.id}: must be a number of 0 or more`);
+      }
+    });
+  }
+
+  /**
+   * Validate a user's out-of-office ranges
+   */
+  private validateUnavailableRanges(user: User): void {
+    if (!Array.isArray(user.unavailable)) {
+      throw new Error(`Invalid unavailable ranges for user ${user.id}: must be an array`);
+    }
+    
+    const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+    user.unavailable.forEach(range => {
+      if (!isoDate.test(range.start) || !isoDate.test(range.end)) {
+        throw new Error(`Invalid unavailable range for user ${user.id}: start and end must be YYYY-MM-DD dates`);
+      }
+      
+      if (range.start > range.end) {
+        throw new Error(`Invalid unavailable range for user ${user.id}: ${range.start} is after ${range.end}`);
+      }
     });
   }
 
@@ -175,7 +289,7 @@ export class StorageService {
    * Validate rotation configuration
    */
   private validateRotationConfig(config: RotationConfig): void {
-    const validFrequencies = ['daily', 'weekly', 'bi-weekly', 'monthly', 'custom'];
+    const validFrequencies = ['daily', 'weekly', 'bi-weekly', 'monthly', 'custom', 'rrule'];
     if (!validFrequencies.includes(config.frequency)) {
       throw new Error(`Invalid rotation frequency: ${config.frequency}`);
     }
@@ -184,16 +298,157 @@ export class StorageService {
       throw new Error('Custom frequency requires a positive interval value');
     }
     
+    if (config.frequency === 'rrule') {
+      if (!config.rrule) {
+        throw new Error('The rrule frequency requires an rrule, e.g. "FREQ=MONTHLY;BYDAY=1WE,3WE"');
+      }
+      parseRecurrenceRule(config.rrule);
+    }
+    
     if (config.schedule?.dayOfWeek !== undefined) {
       if (config.schedule.dayOfWeek < 0 || config.schedule.dayOfWeek > 6) {
         throw new Error('dayOfWeek must be between 0 (Sunday) and 6 (Saturday)');
       }
     }
     
+    if (config.schedule?.time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(config.schedule.time)) {
+      throw new Error('schedule.time must be in HH:MM format');
+    }
+    
     if (config.schedule?.dayOfMonth !== undefined) {
       if (config.schedule.dayOfMonth < 1 || config.schedule.dayOfMonth > 31) {
         throw new Error('dayOfMonth must be between 1 and 31');
       }
     }
+    
+    const validSkipModes = ['advance', 'defer', 'swap'];
+    if (config.skipMode !== undefined && !validSkipModes.includes(config.skipMode)) {
+      throw new Error(`Invalid skip mode: ${config.skipMode}`);
+    }
+
+    if (config.newcomerPlacement !== undefined && !['end-of-queue', 'next-cycle'].includes(config.newcomerPlacement)) {
+      throw new Error(`Invalid newcomer placement: ${config.newcomerPlacement}`);
+    }
+
+    if (config.ordering !== undefined) {
+      const validStrategies = ['round-robin', 'shuffle', 'least-recent', 'weighted'];
+      if (!validStrategies.includes(config.ordering.strategy)) {
+        throw new Error(`Invalid ordering strategy: ${config.ordering.strategy}`);
+      }
+      if (config.ordering.newMemberDays !== undefined && !(config.ordering.newMemberDays >= 0)) {
+        throw new Error('ordering.newMemberDays must be 0 or more');
+      }
+      if (config.ordering.newMemberWeight !== undefined && !(config.ordering.newMemberWeight >= 0)) {
+        throw new Error('ordering.newMemberWeight must be 0 or more');
+      }
+    }
+
+    if (config.admins !== undefined) {
+      if (!Array.isArray(config.admins) || config.admins.some(admin => typeof admin !== 'string')) {
+        throw new Error('admins must be an array of Slack user IDs');
+      }
+    }
+
+    if (config.permissions !== undefined) {
+      const validLevels = ['anyone', 'owner', 'admin'];
+      for (const [permission, level] of Object.entries(config.permissions)) {
+        if (!(permission in DEFAULT_PERMISSIONS)) {
+          throw new Error(`Unknown permission: ${permission}`);
+        }
+        if (!validLevels.includes(level)) {
+          throw new Error(`Invalid permission level for ${permission}: ${level}`);
+        }
+      }
+    }
+
+    if (config.reminders !== undefined) {
+      this.validateReminderConfig(config.reminders);
+    }
+
+    if (config.confirmationDeadline !== undefined) {
+      parseReminderOffset(config.confirmationDeadline);
+    }
+
+    if (config.articles !== undefined && typeof config.articles !== 'boolean') {
+      throw new Error('articles must be true or false');
+    }
+
+    if (config.blackouts !== undefined) {
+      if (!Array.isArray(config.blackouts)) {
+        throw new Error('blackouts must be an array of { start, end } date ranges');
+      }
+      config.blackouts.forEach(range => {
+        const error = getBlackoutRangeError(range);
+        if (error) {
+          throw new Error(`Invalid blackout range: ${error}`);
+        }
+      });
+    }
+
+    if (config.roles !== undefined) {
+      const error = getRolesError(config.roles);
+      if (error) {
+        throw new Error(`Invalid roles: ${error}`);
+      }
+    }
+
+    if (config.message !== undefined) {
+      this.validateMessageConfig(config.message);
+    }
+  }
+
+  /**
+   * Validate presenter reminder configuration
+   */
+  private validateReminderConfig(reminders: ReminderConfig): void {
+    if (!reminders.meeting || reminders.meeting.dayOfWeek < 0 || reminders.meeting.dayOfWeek > 6) {
+      throw new Error('reminders.meeting.dayOfWeek must be between 0 (Sunday) and 6 (Saturday)');
+    }
+    
+    if (!/^\d{2}:\d{2}$/.test(reminders.meeting.time || '')) {
+      throw new Error('reminders.meeting.time must be in HH:MM format');
+    }
+    
+    if (!Array.isArray(reminders.before)) {
+      throw new Error('reminders.before must be an array of offsets such as "2d" or "1h"');
+    }
+    reminders.before.forEach(offset => parseReminderOffset(offset));
+  }
+
+  /**
+   * Validate message template configuration
+   */
+  private validateMessageConfig(message: MessageConfig): void {
+    const validStyles = ['staff-documentation', 'professional', 'casual', 'fun', 'minimal', 'custom'];
+    if (!validStyles.includes(message.style)) {
+      throw new Error(`Invalid message style: ${message.style}`);
+    }
+    
+    if (message.style === 'custom' && (!message.title || !message.ownerLabel)) {
+      throw new Error('Custom message style requires title and ownerLabel');
+    }
+    
+    const textFields = ['title', 'ownerLabel', 'responsibilitiesHeading', 'callToAction'] as const;
+    textFields.forEach(field => {
+      if (message[field] !== undefined && typeof message[field] !== 'string') {
+        throw new Error(`Message ${field} must be a string`);
+      }
+    });
+    
+    if (
+      message.responsibilities !== undefined &&
+      (!Array.isArray(message.responsibilities) ||
+        message.responsibilities.some(item => typeof item !== 'string'))
+    ) {
+      throw new Error('Message responsibilities must be an array of strings');
+    }
+    
+    if (message.emoji !== undefined) {
+      Object.entries(message.emoji).forEach(([key, value]) => {
+        if (typeof value !== 'string') {
+          throw new Error(`Message emoji.${key} must be a string`);
+        }
+      });
+    }
   }
 } 
\ No newline at end of file
@@ -1,34 +1,287 @@
 export interface User {
   id: string; // Slack user ID
   name?: string; // Optional display name (Slack will resolve automatically)
-  startDate: string; // ISO date string when user joined rotation
+  startDate: string; // ISO date string when user joined rotation; they present from the first period starting on or after it
+  endDate?: string; // YYYY-MM-DD last day in the rotation; they present up to the last period ending on or before it
+  unavailable?: UnavailableRange[]; // Out-of-office ranges; the rotation passes over the user during these
+  weight?: number; // Weighted ordering only: relative share of turns (default 1, e.g. 2 for twice as often)
+}
+
+export interface UnavailableRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  reason?: string; // e.g. "Vacation", "Parental leave"
+}
+
+export interface BlackoutRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  reason?: string; // e.g. "Thanksgiving", "Offsite"
+}
+
+export type MessageStyle = 'staff-documentation' | 'professional' | 'casual' | 'fun' | 'minimal' | 'custom';
+
+export interface MessageConfig {
+  style: MessageStyle;
+  // Any field below overrides the corresponding field of the style preset
+  title?: string;
+  ownerLabel?: string; // e.g. "This week's article presenter"
+  responsibilitiesHeading?: string; // e.g. "Reminder for Wednesday's staff meeting:"
+  responsibilities?: string[];
+  callToAction?: string;
+  emoji?: {
+    header?: string; // Prefixed to the title unless the title already starts with it
+    owner?: string; // Prefixed to the owner line
+    responsibility?: string; // Prefixed to each responsibility
+  };
+}
+
+export type SkipMode = 'advance' | 'defer' | 'swap';
+
+export type OrderingStrategy = 'round-robin' | 'shuffle' | 'least-recent' | 'weighted';
+
+// Where `add` puts a newcomer in the regular order (see insertUser)
+export type NewcomerPlacement = 'end-of-queue' | 'next-cycle';
+
+export interface OrderingConfig {
+  strategy: OrderingStrategy;
+  seed?: string; // shuffle: seeds each cycle's order (default: the rotation's startDate)
+  newMemberDays?: number; // weighted: how long someone counts as new after their startDate (default 30)
+  newMemberWeight?: number; // weighted: multiplies a new member's weight (default 0.5)
+}
+
+/**
+ * A job filled each period. The first role is the rotation's own presenter; each other role
+ * follows the presenter by `offset` places in the user order, or rotates through its own `users`
+ */
+export interface RoleConfig {
+  id: string; // e.g. "note-taker", used in button values and state
+  name: string; // e.g. "Note-taker"
+  offset?: number; // Places after the presenter in the user order (default 1)
+  users?: string[]; // Own queue of Slack user IDs, one per period (instead of offset)
+}
+
+export interface RoleAssignment {
+  role: RoleConfig;
+  user: User;
+}
+
+export interface RoleOverride {
+  period: string; // YYYY-MM-DD period start
+  userId: string;
+}
+
+export interface ConfirmationFallback {
+  unconfirmedUser: User;
+  newUser: User;
+  notification: NotificationRecord;
+}
+
+export interface SkipResult {
+  skippedUser: User;
+  newUser: User;
+  mode: SkipMode;
+  duplicate: boolean; // The idempotency key was already applied, so nothing changed
+  role?: RoleConfig; // Set when a role other than the presenter was skipped
+}
+
+export type RotationPermission = 'skip' | 'swap' | 'set' | 'editUsers' | 'editSchedule';
+
+// anyone = any channel member, owner = the current presenter or an admin, admin = admins only
+export type PermissionLevel = 'anyone' | 'owner' | 'admin';
+
+export interface PermissionDecision {
+  allowed: boolean;
+  reason?: string; // Why the action was denied, safe to show to the user
+}
+
+export interface ReminderConfig {
+  meeting: {
+    dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc. (the first such day in each period)
+    time: string; // HH:MM in the rotation timezone
+  };
+  before: string[]; // When to DM the presenter ahead of the meeting, e.g. ["2d", "1h", "30m"]
 }
 
 export interface RotationConfig {
-  frequency: 'daily' | 'weekly' | 'bi-weekly' | 'monthly' | 'custom';
+  frequency: 'daily' | 'weekly' | 'bi-weekly' | 'monthly' | 'custom' | 'rrule';
   interval?: number; // For custom frequency (days)
+  rrule?: string; // For rrule frequency: an RFC 5545 RRULE subset, e.g. "FREQ=MONTHLY;BYDAY=1WE,3WE"
   schedule?: {
     dayOfWeek?: number; // 0=Sunday, 1=Monday, etc. (for weekly/bi-weekly)
-    dayOfMonth?: number; // 1-31 (for monthly)
-    time?: string; // HH:MM format (for GitHub Actions)
+    dayOfMonth?: number; // 1-31 (for monthly; periods run from this day to the day before it next month)
+    time?: string; // HH:MM in the rotation timezone; when --server and --daemon send the notification (default 09:00)
   };
+  message?: MessageConfig; // Defaults to the staff-documentation style
+  skipMode?: SkipMode; // What "Skip to Next" does to the skipped user (default: advance)
+  ordering?: OrderingConfig; // Who presents next (default: round-robin over users)
+  newcomerPlacement?: NewcomerPlacement; // Where added users join the order (default: end-of-queue)
+  admins?: string[]; // Slack user IDs allowed to make any change to the rotation
+  permissions?: Partial<Record<RotationPermission, PermissionLevel>>; // Overrides DEFAULT_PERMISSIONS
+  reminders?: ReminderConfig; // DM reminders for the presenter (none by default)
+  confirmationDeadline?: string; // How long the presenter has to confirm, e.g. "1d"; then the next user is asked (also adds the Confirm button)
+  articles?: boolean; // Presenters can share the article they're presenting (adds the Submit Article button)
+  blackouts?: BlackoutRange[]; // No meeting on these dates: no notification, and the presenter keeps their turn
+  roles?: RoleConfig[]; // Several people per period, e.g. an emcee and a note-taker (the first is the presenter)
 }
 
 export interface RotationState {
   users: User[];
   currentIndex: number;
-  lastRotationDate: string; // ISO date string
+  lastRotationDate: string; // ISO timestamp, rotation timezone wall-clock (like every timestamp in the state)
   startDate: string; // ISO date string when rotation began
   config: RotationConfig;
+  activeUserId?: string; // Deferred user serving a make-up turn this period (overrides users[currentIndex])
+  deferredUserIds?: string[]; // Skipped users owed a make-up turn, in order
+  version?: number; // Incremented on every write; compare-and-set checks it (absent = 0)
+  processedKeys?: string[]; // Idempotency keys of recently applied actions, oldest first
+  sentReminders?: string[]; // `<period>@<offset>` reminders already sent for the current period
+  confirmation?: PresenterConfirmation; // The presenter's acceptance of the current period
+  lastNotification?: NotificationRecord; // The channel message announcing the current period
+  notificationClaim?: NotificationClaim; // Whoever is posting the current period's notification, so it is posted once
+  shuffleCycle?: number; // Shuffle ordering: which cycle's order the current owner came from
+  lastServed?: Record<string, string>; // Least-recent ordering: period (YYYY-MM-DD) each user last presented
+  weightCredits?: Record<string, number>; // Weighted ordering: smooth weighted round-robin credits
+  roleOverrides?: Record<string, RoleOverride>; // Who fills a role this period after it was skipped, by role ID
+}
+
+export interface NotificationClaim {
+  period: string; // YYYY-MM-DD period start
+  claimedAt: string; // ISO timestamp (rotation timezone wall-clock); the claim lapses after NOTIFICATION_CLAIM_MS in case its sender died
+}
+
+export interface NotificationRecord {
+  period: string; // YYYY-MM-DD period start
+  channelId: string;
+  messageTs: string;
+  sentAt: string; // ISO timestamp (rotation timezone wall-clock)
+}
+
+export interface PresenterConfirmation {
+  period: string; // YYYY-MM-DD period start
+  userId: string;
+  confirmedAt: string; // ISO timestamp (rotation timezone wall-clock)
+}
+
+/**
+ * A period in the upcoming schedule; `blackout` is set when it has no meeting
+ */
+export interface ScheduledPeriod {
+  user: User;
+  periodInfo: PeriodInfo;
+  periodNumber: number;
+  blackout?: BlackoutRange;
+  roles?: RoleAssignment[]; // Everyone's role when the rotation has roles, the presenter first
+}
+
+export interface DueReminder {
+  user: User;
+  periodInfo: PeriodInfo;
+  meetingAt: Date;
+  offset: string; // Which of ReminderConfig.before is being sent
+}
+
+export type RotationAction = 'advance' | 'skip' | 'set' | 'unavailable' | 'unconfirmed' | 'remove';
+
+/**
+ * Append-only audit record of a change to who presents in a period
+ */
+export interface RotationHistoryEntry {
+  timestamp: string; // ISO timestamp (rotation timezone wall-clock) of when the action happened
+  period: string; // Start date (YYYY-MM-DD) of the rotation period the action applies to
+  // advance = automatic, skip = skipped to next, set = manual override,
+  // unavailable = owner out of office, unconfirmed = owner missed the confirmation deadline,
+  // remove = a user was taken out of the rotation
+  action: RotationAction;
+  assignedUserId: string; // Who the rotation had assigned for the period
+  presenterId: string; // Who presents after the action
+  actorId?: string; // Slack user ID that triggered the action (omitted for automatic advances)
+  role?: string; // Role ID when the action changed a role other than the presenter
+  removedUserId?: string; // Who was taken out of the rotation, for remove
+}
+
+export interface PeriodPresenter {
+  period: string;
+  assignedUserId: string;
+  presenterId: string;
+}
+
+/**
+ * Article shared by the presenter of a period (at most one per period)
+ */
+export interface Article {
+  period: string; // Start date (YYYY-MM-DD) of the period it was presented in
+  userId: string; // The presenter
+  title: string;
+  url: string;
+  summary?: string;
+  submittedAt: string; // ISO timestamp (rotation timezone wall-clock)
+  submittedBy: string; // Slack user ID that submitted it (the presenter or an admin)
+}
+
+export type ArticleSubmission = Pick<Article, 'title' | 'url' | 'summary'>;
+
+/**
+ * What the rotation message shows about the current period besides its presenter
+ */
+export interface NotificationStatus {
+  confirmed?: boolean;
+  article?: Article;
+  roles?: RoleAssignment[]; // Who fills each role, when the rotation has roles
+}
+
+export interface HistoryFilter {
+  since?: string; // Only periods starting on or after this date (YYYY-MM-DD)
+  until?: string; // Only periods starting on or before this date (YYYY-MM-DD)
+  limit?: number; // Only the most recent N matching entries
+}
+
+/**
+ * Contract shared by every rotation state backend (file, KV, remote API, in-memory)
+ */
+export interface RotationStore {
+  loadRotationState(): Promise<RotationState>;
+  saveRotationState(state: RotationState): Promise<void>;
+  /**
+   * Persist `next` only if the stored state still has `expected.version`.
+   * Resolves to false when another writer changed the state in between.
+   */
+  compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean>;
+  updateRotationState(currentIndex: number, lastRotationDate: string): Promise<void>;
+  /**
+   * Apply `mutate` to a copy of the stored state and persist it with compare-and-set,
+   * retrying on conflict. Returning `false` from `mutate` skips the write.
+   */
+  mutateRotationState(mutate: (state: RotationState) => boolean | void): Promise<RotationState>;
+  getCurrentUser(): Promise<User>;
+  advanceToNextUser(lastRotationDate: string): Promise<User>;
+  addUser(user: User): Promise<void>;
+  removeUser(userId: string): Promise<void>;
+  updateUserList(users: User[]): Promise<void>;
+  appendHistory(entry: RotationHistoryEntry): Promise<void>;
+  getHistory(limit?: number): Promise<RotationHistoryEntry[]>;
+  saveArticle(article: Article): Promise<void>; // Replaces any article already saved for the period
+  getArticles(): Promise<Article[]>; // Oldest period first
+}
+
+export interface RotationDefinition {
+  id: string; // Lowercase slug, used in CLI flags, API query strings, button payloads and KV keys
+  name?: string;
+  slackChannelId: string;
+  usersFilePath: string;
+  stateFilePath: string;
+  historyFilePath: string;
+  articlesFilePath: string;
 }
 
 export interface AppConfig {
   slackBotToken: string;
-  slackChannelId: string;
+  slackChannelId: string; // Default channel for rotations that don't set their own
   slackSigningSecret?: string;
+  slackPreviousSigningSecret?: string; // Still accepted while the signing secret is rotated
   timezone: string;
-  usersFilePath: string;
-  stateFilePath: string;
+  rotations: RotationDefinition[];
+  defaultRotationId: string;
   enableInteractions?: boolean;
   serverPort?: number;
 }
@@ -50,4 +303,16 @@ export interface NotificationResult {
   success: boolean;
   messageTs?: string;
   error?: string;
-} 
\ No newline at end of file
+}
+
+export interface SlashCommandInput {
+  text: string; // Everything after the command name
+  userId: string;
+  channelId: string;
+}
+
+export interface CommandResponse {
+  responseType: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: any[];
+}
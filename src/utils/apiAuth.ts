@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+/**
+ * Check an `Authorization: Bearer <token>` header against ROTATION_API_TOKEN.
+ * Fails closed: without a configured token no request is authorized.
+ */
+export function isAuthorizedApiRequest(
+  authorization: string | string[] | undefined,
+  apiToken: string = (process.env.ROTATION_API_TOKEN || '').trim()
+): boolean {
+  if (!apiToken || typeof authorization !== 'string') {
+    return false;
+  }
+
+  const [scheme, token] = authorization.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return false;
+  }
+
+  return tokensMatch(apiToken, token);
+}
+
+/**
+ * Check a calendar feed's `?token=` against ROTATION_CALENDAR_TOKEN. Calendar apps can't send
+ * headers, so the feed has its own read-only token rather than the API token in a URL.
+ * Fails closed like the API token.
+ */
+export function isAuthorizedCalendarRequest(
+  token: string | string[] | undefined,
+  calendarToken: string = (process.env.ROTATION_CALENDAR_TOKEN || '').trim()
+): boolean {
+  if (!calendarToken || typeof token !== 'string' || !token) {
+    return false;
+  }
+
+  return tokensMatch(calendarToken, token);
+}
+
+/**
+ * Compare digests so the comparison is constant-time regardless of token length
+ */
+function tokensMatch(expectedToken: string, receivedToken: string): boolean {
+  const expected = crypto.createHash('sha256').update(expectedToken).digest();
+  const received = crypto.createHash('sha256').update(receivedToken).digest();
+
+  return crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,71 @@
+import { Article, ArticleSubmission } from '../types';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_SUMMARY_LENGTH = 1000;
+
+/**
+ * Check a submitted article, returning why it can't be saved (or undefined if it can)
+ */
+export function getArticleSubmissionError(submission: ArticleSubmission): string | undefined {
+  if (!submission.title.trim()) {
+    return 'Give the article a title';
+  }
+  if (submission.title.length > MAX_TITLE_LENGTH) {
+    return `Keep the title under ${MAX_TITLE_LENGTH} characters`;
+  }
+  if ((submission.summary || '').length > MAX_SUMMARY_LENGTH) {
+    return `Keep the summary under ${MAX_SUMMARY_LENGTH} characters`;
+  }
+
+  try {
+    const url = new URL(submission.url);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'The link must start with http:// or https://';
+    }
+  } catch {
+    return `"${submission.url}" isn't a valid link`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Escape text for Slack mrkdwn, so what users typed can't add links, mentions or broadcasts
+ */
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Format an article as a mrkdwn link to it, or only its title if the link isn't http(s)
+ */
+export function formatArticleLink(article: Pick<Article, 'title' | 'url'>): string {
+  const title = escapeMrkdwn(article.title);
+
+  let url: URL;
+  try {
+    url = new URL(article.url.trim());
+  } catch {
+    return title;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return title;
+  }
+
+  // A `|` would end the link early
+  return `<${escapeMrkdwn(url.href.replace(/\|/g, '%7C'))}|${title}>`;
+}
+
+/**
+ * Find articles whose title, link or summary contain every word of the query, newest first
+ */
+export function searchArticles(articles: Article[], query = ''): Article[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return articles
+    .filter(article => {
+      const text = [article.title, article.url, article.summary || ''].join(' ').toLowerCase();
+      return terms.every(term => text.includes(term));
+    })
+    .sort((a, b) => b.period.localeCompare(a.period));
+}
@@ -0,0 +1,102 @@
+import { BlackoutRange, PeriodInfo, RotationConfig } from '../types';
+import { getMeetingTime } from './reminders';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get the blackout covering a period's meeting: the reminders meeting day if configured,
+ * otherwise the first day of the period
+ */
+export function getPeriodBlackout(periodInfo: PeriodInfo, config: RotationConfig): BlackoutRange | undefined {
+  const meetingAt = config.reminders ? getMeetingTime(periodInfo, config.reminders.meeting) : periodInfo.startDate;
+  const meetingDay = meetingAt.toISOString().substring(0, 10);
+
+  return (config.blackouts || []).find(range => range.start <= meetingDay && range.end >= meetingDay);
+}
+
+/**
+ * Check a blackout range, returning why it is invalid (or undefined if it is fine)
+ */
+export function getBlackoutRangeError(range: BlackoutRange): string | undefined {
+  if (!ISO_DATE.test(range.start) || !ISO_DATE.test(range.end) || isNaN(Date.parse(range.start)) || isNaN(Date.parse(range.end))) {
+    return 'Blackout dates must be in YYYY-MM-DD format';
+  }
+  if (range.start > range.end) {
+    return `${range.start} is after ${range.end}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Add ranges to a blackout list, leaving out ones it already has, ordered by start date
+ */
+export function mergeBlackouts(existing: BlackoutRange[], added: BlackoutRange[]): BlackoutRange[] {
+  const merged = [...existing];
+  for (const range of added) {
+    if (!merged.some(candidate => candidate.start === range.start && candidate.end === range.end)) {
+      merged.push(range);
+    }
+  }
+
+  return merged.sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+}
+
+/**
+ * Read the events of an iCalendar (.ics) file as blackout ranges, named after their SUMMARY.
+ * All-day events end the day before their (exclusive) DTEND; timed events cover the days they touch.
+ * Recurring events only contribute their first occurrence.
+ */
+export function parseIcsBlackouts(ics: string): BlackoutRange[] {
+  // Long lines continue on lines starting with a space or tab
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const ranges: BlackoutRange[] = [];
+  let event: Map<string, string> | undefined;
+
+  for (const line of lines) {
+    if (line.trim() === 'BEGIN:VEVENT') {
+      event = new Map();
+    } else if (line.trim() === 'END:VEVENT' && event) {
+      const range = toBlackoutRange(event);
+      if (range) {
+        ranges.push(range);
+      }
+      event = undefined;
+    } else if (event) {
+      // NAME;PARAM=VALUE:value (parameters such as VALUE=DATE or TZID aren't needed)
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        event.set(line.substring(0, separator).split(';')[0]!.toUpperCase(), line.substring(separator + 1).trim());
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Turn a VEVENT's properties into a blackout range, if it has a readable DTSTART
+ */
+function toBlackoutRange(event: Map<string, string>): BlackoutRange | undefined {
+  const start = toISODate(event.get('DTSTART'));
+  if (!start) {
+    return undefined;
+  }
+
+  const dtEnd = event.get('DTEND');
+  let end = toISODate(dtEnd) || start;
+  if (dtEnd && !dtEnd.includes('T') && end > start) {
+    end = new Date(Date.parse(end) - 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+  }
+
+  const summary = event.get('SUMMARY')?.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1');
+  return { start, end: end < start ? start : end, ...(summary ? { reason: summary } : {}) };
+}
+
+/**
+ * Read the date part of an iCalendar DATE or DATE-TIME value (e.g. 20251127 or 20251127T090000Z)
+ */
+function toISODate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
@@ -0,0 +1,95 @@
+import { ReminderConfig, ScheduledPeriod } from '../types';
+import { formatDateRange } from './dateUtils';
+import { getMeetingTime } from './reminders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RFC 5545 lines are at most 75 octets; longer ones continue on lines starting with a space
+const MAX_LINE_LENGTH = 75;
+
+export interface CalendarFeedOptions {
+  rotationId: string;
+  rotationName?: string;
+  meeting?: ReminderConfig['meeting']; // One-day events on the meeting day instead of spanning each period
+  userId?: string; // Only this user's turns
+  names?: Map<string, string>; // Display names by Slack user ID (default: the user's name or ID)
+  now?: Date; // DTSTAMP
+}
+
+/**
+ * Render an upcoming schedule as an iCalendar (.ics) feed with one all-day event per period.
+ * Event UIDs are stable per period, so calendars update a period's presenter in place.
+ */
+export function renderRotationCalendar(schedule: ScheduledPeriod[], options: CalendarFeedOptions): string {
+  const rotationName = options.rotationName || options.rotationId;
+  const stamp = formatDateTime(options.now || new Date());
+
+  const events = schedule
+    .filter(item => !options.userId || (item.user.id === options.userId && !item.blackout))
+    .map(item => {
+      const period = item.periodInfo.startDate.toISOString().substring(0, 10);
+      const start = options.meeting ? getMeetingTime(item.periodInfo, options.meeting) : item.periodInfo.startDate;
+      const end = options.meeting ? new Date(start.getTime() + DAY_MS) : new Date(item.periodInfo.endDate.getTime() + 1);
+      const name = options.names?.get(item.user.id) || item.user.name || item.user.id;
+      const summary = item.blackout
+        ? `No ${rotationName} meeting${item.blackout.reason ? ` (${item.blackout.reason})` : ''}`
+        : `${name} presenting (${rotationName})`;
+
+      return [
+        'BEGIN:VEVENT',
+        `UID:${options.rotationId}-${period}@pan-eng-review-rotation`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(start)}`,
+        `DTEND;VALUE=DATE:${formatDate(end)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(`${rotationName} period ${formatDateRange(item.periodInfo.startDate, item.periodInfo.endDate)}`)}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+      ];
+    });
+
+  const calendarName = options.userId ? `${rotationName}: ${options.names?.get(options.userId) || options.userId}` : rotationName;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//pan-eng-review-rotation//Rotation Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape a TEXT value (backslashes, commas, semicolons and newlines)
+ */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    // Leave room for the leading space on continuation lines
+    const limit = chunks.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+
+  return [...chunks, chunk].join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().substring(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
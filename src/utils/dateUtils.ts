@@ -1,4 +1,5 @@
 import { WeekInfo, PeriodInfo, RotationConfig } from '../types';
+import { RecurrenceRule, getRecurrencePeriod, getRecurrencePeriodsBetween, parseRecurrenceRule } from './recurrence';
 
 /**
  * Get ISO week number for a given date
@@ -80,30 +81,15 @@ export function getWeeksBetween(startDate: Date, endDate: Date, weekStartDay: nu
   const start = weekStartDay === 1 ? getISOWeek(startDate) : getCustomWeek(startDate, weekStartDay);
   const end = weekStartDay === 1 ? getISOWeek(endDate) : getCustomWeek(endDate, weekStartDay);
   
-  // Handle year transitions
-  if (start.year === end.year) {
-    return end.weekNumber - start.weekNumber;
-  }
-  
-  // For custom weeks, calculate based on actual time difference
-  if (weekStartDay !== 1) {
-    const timeDiff = end.startDate.getTime() - start.startDate.getTime();
-    return Math.floor(timeDiff / (7 * 24 * 60 * 60 * 1000));
-  }
-  
-  // Get weeks remaining in start year + weeks in end year
-  const weeksInStartYear = getISOWeeksInYear(start.year);
-  const weeksFromStart = weeksInStartYear - start.weekNumber;
-  const totalWeeks = weeksFromStart + end.weekNumber + ((end.year - start.year - 1) * 52);
-  
-  return totalWeeks;
+  // Week starts are both midnights, so this also holds across years with 53 ISO weeks
+  return Math.round((end.startDate.getTime() - start.startDate.getTime()) / (7 * 24 * 60 * 60 * 1000));
 }
 
 /**
  * Get number of ISO weeks in a given year
  */
 export function getISOWeeksInYear(year: number): number {
-  const dec28 = new Date(year, 11, 28);
+  const dec28 = new Date(Date.UTC(year, 11, 28));
   return getISOWeek(dec28).weekNumber;
 }
 
@@ -125,10 +111,54 @@ export function formatDateRange(startDate: Date, endDate: Date): string {
 }
 
 /**
- * Get current date in specified timezone
+ * Get current date in specified timezone, as wall-clock time in UTC fields
  */
 export function getCurrentDateInTimezone(timezone: string): Date {
-  return new Date(new Date().toLocaleString('en-US', { timeZone: timezone }));
+  return toZonedWallClock(new Date(), timezone);
+}
+
+/**
+ * Convert an instant to the wall-clock time it shows in an IANA timezone, stored in the UTC fields
+ * of the returned Date. The period engine works on these, so its results don't depend on the host's TZ.
+ */
+export function toZonedWallClock(date: Date, timezone: string): Date {
+  const parts = getZonedFormatter(timezone).formatToParts(date);
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+  return new Date(Date.UTC(
+    field('year'),
+    field('month') - 1,
+    field('day'),
+    field('hour'),
+    field('minute'),
+    field('second'),
+    date.getUTCMilliseconds()
+  ));
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a cached formatter that prints every date field numerically in a timezone (throws for unknown zones)
+ */
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+
+  return formatter;
 }
 
 /**
@@ -143,14 +173,20 @@ export function isNewWeek(lastRotationDate: string, currentDate: Date, weekStart
 }
 
 /**
- * Get rotation period info based on configuration
+ * Get rotation period info based on configuration.
+ * Bi-weekly and custom periods count from `anchorDate` (the rotation's start date) when given.
  */
-export function getRotationPeriod(date: Date, config: RotationConfig): PeriodInfo {
+export function getRotationPeriod(date: Date, config: RotationConfig, anchorDate?: string | Date): PeriodInfo {
+  const rule = getRecurrenceRule(config);
+  if (rule) {
+    return getRecurrencePeriod(date, rule, anchorDate);
+  }
+
   switch (config.frequency) {
     case 'daily':
       return getDayPeriod(date);
     case 'weekly':
-      const weekStartDay = config.schedule?.dayOfWeek || 1; // Default to Monday if not specified
+      const weekStartDay = getWeekStartDay(config);
       const weekInfo = weekStartDay === 1 ? getISOWeek(date) : getCustomWeek(date, weekStartDay);
       return {
         ...weekInfo,
@@ -158,33 +194,39 @@ export function getRotationPeriod(date: Date, config: RotationConfig): PeriodInf
         type: 'week',
       };
     case 'bi-weekly':
-      return getBiWeeklyPeriod(date, config);
+      return getBiWeeklyPeriod(date, config, anchorDate);
     case 'monthly':
       return getMonthPeriod(date);
     case 'custom':
-      return getCustomPeriod(date, config.interval || 7);
+      return getCustomPeriod(date, config.interval || 7, anchorDate);
     default:
       throw new Error(`Unsupported rotation frequency: ${config.frequency}`);
   }
 }
 
 /**
- * Calculate periods between two dates based on rotation config
+ * Calculate periods between two dates based on rotation config (see `getRotationPeriod` for `anchorDate`)
  */
-export function getPeriodsBetween(startDate: Date, endDate: Date, config: RotationConfig): number {
+export function getPeriodsBetween(startDate: Date, endDate: Date, config: RotationConfig, anchorDate?: string | Date): number {
+  const rule = getRecurrenceRule(config);
+  if (rule) {
+    return getRecurrencePeriodsBetween(startDate, endDate, rule, anchorDate);
+  }
+
   switch (config.frequency) {
     case 'daily':
-      return getDaysBetween(startDate, endDate);
+      // Calendar days, so a later time on the next day still counts as a new day
+      return getCustomIndex(endDate, 1) - getCustomIndex(startDate, 1);
     case 'weekly':
-      const weekStartDay = config.schedule?.dayOfWeek || 1; // Default to Monday if not specified
-      return getWeeksBetween(startDate, endDate, weekStartDay);
+      return getWeeksBetween(startDate, endDate, getWeekStartDay(config));
     case 'bi-weekly':
-      const biWeekStartDay = config.schedule?.dayOfWeek || 1;
-      return Math.floor(getWeeksBetween(startDate, endDate, biWeekStartDay) / 2);
+      return getBiWeeklyIndex(endDate, config, anchorDate) - getBiWeeklyIndex(startDate, config, anchorDate);
     case 'monthly':
       return getMonthsBetween(startDate, endDate);
-    case 'custom':
-      return Math.floor(getDaysBetween(startDate, endDate) / (config.interval || 7));
+    case 'custom': {
+      const interval = config.interval || 7;
+      return getCustomIndex(endDate, interval, anchorDate) - getCustomIndex(startDate, interval, anchorDate);
+    }
     default:
       throw new Error(`Unsupported rotation frequency: ${config.frequency}`);
   }
@@ -193,12 +235,83 @@ export function getPeriodsBetween(startDate: Date, endDate: Date, config: Rotati
 /**
  * Check if it's time for a new rotation based on config
  */
-export function isNewRotationPeriod(lastRotationDate: string, currentDate: Date, config: RotationConfig): boolean {
+export function isNewRotationPeriod(
+  lastRotationDate: string,
+  currentDate: Date,
+  config: RotationConfig,
+  anchorDate?: string | Date
+): boolean {
   const lastDate = new Date(lastRotationDate);
-  const periodsSince = getPeriodsBetween(lastDate, currentDate, config);
+  const periodsSince = getPeriodsBetween(lastDate, currentDate, config, anchorDate);
   return periodsSince > 0;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where bi-weekly and custom periods count from for rotations without a start date (a Monday)
+const DEFAULT_PERIOD_ANCHOR = new Date(Date.UTC(2024, 0, 1));
+
+/**
+ * Get the recurrence rule behind periods that aren't plain calendar units:
+ * the `rrule` frequency, and monthly rotations that start on a day other than the 1st
+ */
+function getRecurrenceRule(config: RotationConfig): RecurrenceRule | undefined {
+  if (config.frequency === 'rrule') {
+    if (!config.rrule) {
+      throw new Error('The rrule frequency requires an rrule, e.g. "FREQ=MONTHLY;BYDAY=1WE,3WE"');
+    }
+    return parseRecurrenceRule(config.rrule);
+  }
+
+  const dayOfMonth = config.schedule?.dayOfMonth;
+  if (config.frequency === 'monthly' && dayOfMonth !== undefined && dayOfMonth !== 1) {
+    return { freq: 'MONTHLY', interval: 1, byDay: [], byMonthDay: [dayOfMonth] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the weekday periods start on (0 = Sunday), Monday unless the schedule says otherwise
+ */
+function getWeekStartDay(config: RotationConfig): number {
+  return config.schedule?.dayOfWeek ?? 1;
+}
+
+/**
+ * Get midnight (UTC fields) of the day periods are counted from
+ */
+function getPeriodAnchor(anchorDate?: string | Date): Date {
+  const anchor = anchorDate ? new Date(anchorDate) : DEFAULT_PERIOD_ANCHOR;
+  if (isNaN(anchor.getTime())) {
+    throw new Error(`Invalid rotation start date: ${anchorDate}`);
+  }
+
+  return new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate()));
+}
+
+/**
+ * Get the start of the first week of bi-weekly periods (the week containing the anchor)
+ */
+function getBiWeeklyAnchor(config: RotationConfig, anchorDate?: string | Date): Date {
+  return getCustomWeek(getPeriodAnchor(anchorDate), getWeekStartDay(config)).startDate;
+}
+
+/**
+ * Count the bi-weekly periods from the anchor to the one containing `date` (negative before the anchor)
+ */
+function getBiWeeklyIndex(date: Date, config: RotationConfig, anchorDate?: string | Date): number {
+  const weekStart = getCustomWeek(date, getWeekStartDay(config)).startDate;
+  return Math.floor(getDaysBetween(getBiWeeklyAnchor(config, anchorDate), weekStart) / 14);
+}
+
+/**
+ * Count the custom-interval periods from the anchor to the one containing `date` (negative before the anchor)
+ */
+function getCustomIndex(date: Date, intervalDays: number, anchorDate?: string | Date): number {
+  return Math.floor(getDaysBetween(getPeriodAnchor(anchorDate), date) / intervalDays);
+}
+
 /**
  * Get day period info
  */
@@ -224,18 +337,18 @@ function getDayPeriod(date: Date): PeriodInfo {
 }
 
 /**
- * Get bi-weekly period info
+ * Get bi-weekly period info: two-week blocks counted from the week containing the anchor
  */
-function getBiWeeklyPeriod(date: Date, config: RotationConfig): PeriodInfo {
-  const weekStartDay = config.schedule?.dayOfWeek || 1;
-  const weekInfo = weekStartDay === 1 ? getISOWeek(date) : getCustomWeek(date, weekStartDay);
-  const biWeekNumber = Math.ceil(weekInfo.weekNumber / 2);
+function getBiWeeklyPeriod(date: Date, config: RotationConfig, anchorDate?: string | Date): PeriodInfo {
+  const index = getBiWeeklyIndex(date, config, anchorDate);
+  const startDate = new Date(getBiWeeklyAnchor(config, anchorDate).getTime() + index * 14 * DAY_MS);
+  const endDate = new Date(startDate.getTime() + 14 * DAY_MS - 1);
   
   return {
-    periodNumber: biWeekNumber,
-    startDate: weekInfo.startDate,
-    endDate: new Date(weekInfo.endDate.getTime() + 7 * 24 * 60 * 60 * 1000),
-    year: weekInfo.year,
+    periodNumber: index + 1,
+    startDate,
+    endDate,
+    year: startDate.getUTCFullYear(),
     type: 'week',
   };
 }
@@ -257,24 +370,18 @@ function getMonthPeriod(date: Date): PeriodInfo {
 }
 
 /**
- * Get custom period info based on interval days
+ * Get custom period info: blocks of `intervalDays` counted from the anchor
  */
-function getCustomPeriod(date: Date, intervalDays: number): PeriodInfo {
-  const epoch = new Date(Date.UTC(2024, 0, 1)); // Reference date
-  const daysSinceEpoch = Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24));
-  const periodNumber = Math.floor(daysSinceEpoch / intervalDays);
-  
-  const startDate = new Date(epoch.getTime() + periodNumber * intervalDays * 24 * 60 * 60 * 1000);
-  startDate.setUTCHours(0, 0, 0, 0);
-  
-  const endDate = new Date(startDate.getTime() + (intervalDays - 1) * 24 * 60 * 60 * 1000);
-  endDate.setUTCHours(23, 59, 59, 999);
+function getCustomPeriod(date: Date, intervalDays: number, anchorDate?: string | Date): PeriodInfo {
+  const index = getCustomIndex(date, intervalDays, anchorDate);
+  const startDate = new Date(getPeriodAnchor(anchorDate).getTime() + index * intervalDays * DAY_MS);
+  const endDate = new Date(startDate.getTime() + intervalDays * DAY_MS - 1);
   
   return {
-    periodNumber,
+    periodNumber: index + 1,
     startDate,
     endDate,
-    year: date.getUTCFullYear(),
+    year: startDate.getUTCFullYear(),
     type: 'custom',
   };
 }
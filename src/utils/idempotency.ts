@@ -0,0 +1,35 @@
+import { RotationState } from '../types';
+
+// How many recent keys are kept; Slack only retries an interaction for a few minutes
+export const MAX_PROCESSED_KEYS = 50;
+
+/**
+ * Derive the idempotency key for a Skip button press from its JSON value.
+ * The value names the owner (and role, for role skips) and render time of the message, so a
+ * replayed interaction yields the same key while a re-rendered message yields a new one.
+ */
+export function getSkipIdempotencyKey(buttonValue: string | undefined): string | undefined {
+  try {
+    const { currentUserId, timestamp, roleId } = JSON.parse(buttonValue || '{}');
+    if (!currentUserId || !timestamp) {
+      return undefined;
+    }
+    return roleId ? `skip:${roleId}:${currentUserId}:${timestamp}` : `skip:${currentUserId}:${timestamp}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether an action with this key was already applied to the state
+ */
+export function hasProcessedKey(state: RotationState, key: string): boolean {
+  return (state.processedKeys || []).includes(key);
+}
+
+/**
+ * Remember that an action with this key was applied, keeping only the most recent keys
+ */
+export function recordProcessedKey(state: RotationState, key: string): void {
+  state.processedKeys = [...(state.processedKeys || []), key].slice(-MAX_PROCESSED_KEYS);
+}
@@ -0,0 +1,104 @@
+import { MessageConfig, MessageStyle, RotationConfig } from '../types';
+
+export interface MessageTemplate {
+  title: string;
+  ownerLabel: string;
+  responsibilitiesHeading: string;
+  responsibilities: string[];
+  callToAction: string;
+}
+
+/**
+ * Built-in message styles (see message-examples.json)
+ */
+export const MESSAGE_STYLES: Record<Exclude<MessageStyle, 'custom'>, MessageTemplate> = {
+  'staff-documentation': {
+    title: '📄 Staff Documentation Rotation',
+    ownerLabel: "This week's article presenter",
+    responsibilitiesHeading: "Reminder for Wednesday's staff meeting:",
+    responsibilities: [
+      '• Please prepare an interesting article to share',
+      '• 5-10 minute presentation/discussion',
+      '• Focus on industry trends, best practices, or innovation',
+      '• Share the article link in advance if possible',
+    ],
+    callToAction: "Questions? Reach out to this week's presenter! 📚",
+  },
+  professional: {
+    title: '📋 Rotation Assignment',
+    ownerLabel: 'Assigned owner',
+    responsibilitiesHeading: 'Responsibilities:',
+    responsibilities: [
+      '• Own the rotation duties for this period',
+      '• Coordinate with the team on any open items',
+      '• Hand over outstanding work at the end of the period',
+    ],
+    callToAction: 'Please direct related questions to the assigned owner.',
+  },
+  casual: {
+    title: "👋 Heads up, it's rotation time",
+    ownerLabel: "You're up",
+    responsibilitiesHeading: 'The plan:',
+    responsibilities: [
+      '• Take the lead this time around',
+      '• Shout if you need a hand',
+    ],
+    callToAction: 'Questions? Just ping them 🙌',
+  },
+  fun: {
+    title: '🎉 And the spotlight goes to...',
+    ownerLabel: '🌟 Our hero for this round',
+    responsibilitiesHeading: 'Your quest, should you choose to accept it:',
+    responsibilities: [
+      '🚀 Lead the way',
+      '🎤 Bring the good vibes',
+      '🏆 Make it memorable',
+    ],
+    callToAction: 'Give them a cheer! 🥳',
+  },
+  minimal: {
+    title: 'Rotation',
+    ownerLabel: 'Owner',
+    responsibilitiesHeading: '',
+    responsibilities: [],
+    callToAction: '',
+  },
+};
+
+/**
+ * Resolve the message template for a rotation: style preset plus any overrides.
+ * The custom style starts from an empty template, so it relies on its own fields.
+ */
+export function resolveMessageTemplate(config?: RotationConfig): MessageTemplate {
+  const message: MessageConfig = config?.message || { style: 'staff-documentation' };
+  const preset: MessageTemplate =
+    message.style === 'custom'
+      ? { title: '', ownerLabel: '', responsibilitiesHeading: '', responsibilities: [], callToAction: '' }
+      : MESSAGE_STYLES[message.style];
+
+  const headerEmoji = message.emoji?.header;
+  const ownerEmoji = message.emoji?.owner;
+  const responsibilityEmoji = message.emoji?.responsibility;
+
+  let title = message.title ?? preset.title;
+  if (headerEmoji && !title.startsWith(headerEmoji)) {
+    title = `${headerEmoji} ${title}`;
+  }
+
+  let ownerLabel = message.ownerLabel ?? preset.ownerLabel;
+  if (ownerEmoji && !ownerLabel.startsWith(ownerEmoji)) {
+    ownerLabel = `${ownerEmoji} ${ownerLabel}`;
+  }
+
+  const responsibilities = (message.responsibilities ?? preset.responsibilities).map(item =>
+    responsibilityEmoji ? `${responsibilityEmoji} ${item}` : item
+  );
+
+  return {
+    title,
+    ownerLabel,
+    responsibilitiesHeading: message.responsibilitiesHeading ?? preset.responsibilitiesHeading,
+    responsibilities,
+    callToAction: message.callToAction ?? preset.callToAction,
+  };
+}
@@ -0,0 +1,201 @@
+import { OrderingStrategy, PeriodInfo, RotationState, User } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_NEW_MEMBER_DAYS = 30;
+const DEFAULT_NEW_MEMBER_WEIGHT = 0.5;
+
+/**
+ * Ordering strategies decide who presents after the current regular owner (`users[currentIndex]`).
+ * Round-robin is handled by the rotation engine; the others are picked here, and keep their
+ * bookkeeping in the rotation state so previews (which simulate on a copy) are stable:
+ *
+ * - shuffle: each cycle visits everyone once, in an order seeded by `ordering.seed` and the cycle number
+ * - least-recent: whoever presented longest ago (`lastServed`), then the regular order
+ * - weighted: smooth weighted round-robin over `User.weight`, reduced for new members
+ *
+ * Each strategy avoids picking the current owner again unless nobody else is eligible.
+ */
+
+export function getOrderingStrategy(state: RotationState): OrderingStrategy {
+  return state.config.ordering?.strategy || 'round-robin';
+}
+
+/**
+ * Pick the index in `state.users` of who presents next among eligible users, updating the
+ * strategy's bookkeeping. Returns undefined when nobody is eligible.
+ */
+export function pickNextUserIndex(
+  state: RotationState,
+  isEligible: (user: User) => boolean,
+  period?: Pick<PeriodInfo, 'startDate'>
+): number | undefined {
+  const currentId = state.users[state.currentIndex % state.users.length]!.id;
+  const eligible = state.users.filter(isEligible);
+  const candidates = eligible.some(user => user.id !== currentId)
+    ? eligible.filter(user => user.id !== currentId)
+    : eligible;
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  let next: User;
+  switch (getOrderingStrategy(state)) {
+    case 'shuffle':
+      next = pickShuffled(state, candidates, currentId);
+      break;
+    case 'least-recent':
+      next = pickLeastRecent(state, candidates);
+      break;
+    case 'weighted':
+      next = pickWeighted(state, eligible, candidates, period);
+      break;
+    default:
+      next = inRegularOrder(state, candidates)[0]!;
+  }
+
+  return state.users.indexOf(next);
+}
+
+/**
+ * Record that a user presents in a period, for the least-recent strategy
+ */
+export function recordServed(state: RotationState, userId: string, period: Pick<PeriodInfo, 'startDate'>): void {
+  if (getOrderingStrategy(state) === 'least-recent') {
+    state.lastServed = { ...state.lastServed, [userId]: period.startDate.toISOString().substring(0, 10) };
+  }
+}
+
+/**
+ * Get the shuffled order of a cycle. Users are sorted first, so the order only depends on
+ * who is in the rotation, the seed and the cycle number. A cycle doesn't start with whoever
+ * ended the previous one.
+ */
+export function getShuffledOrder(state: RotationState, cycle: number): string[] {
+  const order = shuffle(state, cycle);
+  const previousLast = cycle > 0 ? shuffle(state, cycle - 1)[order.length - 1] : undefined;
+
+  // Swapping the first two can't change the last one with three or more users
+  if (order.length > 2 && order[0] === previousLast) {
+    [order[0], order[1]] = [order[1]!, order[0]!];
+  }
+
+  return order;
+}
+
+/**
+ * The rest of the current cycle's order, then the next cycle's
+ */
+function pickShuffled(state: RotationState, candidates: User[], currentId: string): User {
+  const cycle = state.shuffleCycle || 0;
+  const order = getShuffledOrder(state, cycle);
+  const upcoming = [
+    ...order.slice(order.indexOf(currentId) + 1).map(id => ({ id, cycle })),
+    ...getShuffledOrder(state, cycle + 1).map(id => ({ id, cycle: cycle + 1 })),
+  ];
+
+  const next = upcoming.find(entry => candidates.some(user => user.id === entry.id));
+  if (!next) {
+    return candidates[0]!;
+  }
+
+  state.shuffleCycle = next.cycle;
+  return candidates.find(user => user.id === next.id)!;
+}
+
+/**
+ * Whoever presented longest ago (never counts as longest), ties broken by the regular order
+ */
+function pickLeastRecent(state: RotationState, candidates: User[]): User {
+  const lastServed = state.lastServed || {};
+  return inRegularOrder(state, candidates).reduce((best, user) =>
+    (lastServed[user.id] || '') < (lastServed[best.id] || '') ? user : best
+  );
+}
+
+/**
+ * Smooth weighted round-robin: every eligible user earns their weight in credit each turn, and
+ * the candidate with the most credit presents and pays back the turn's total. Over time each
+ * user presents in proportion to their weight, spread out rather than in runs.
+ */
+function pickWeighted(
+  state: RotationState,
+  eligible: User[],
+  candidates: User[],
+  period?: Pick<PeriodInfo, 'startDate'>
+): User {
+  const credits: Record<string, number> = {};
+  let total = 0;
+
+  for (const user of eligible) {
+    const weight = getWeight(state, user, period);
+    credits[user.id] = (state.weightCredits?.[user.id] || 0) + weight;
+    total += weight;
+  }
+  // Users who weren't eligible keep their credit
+  for (const user of state.users) {
+    if (credits[user.id] === undefined && state.weightCredits?.[user.id] !== undefined) {
+      credits[user.id] = state.weightCredits[user.id]!;
+    }
+  }
+
+  const next = inRegularOrder(state, candidates).reduce((best, user) =>
+    credits[user.id]! > credits[best.id]! ? user : best
+  );
+  credits[next.id] = credits[next.id]! - total;
+  state.weightCredits = credits;
+
+  return next;
+}
+
+/**
+ * A user's weight for a period: `User.weight` (default 1), reduced during their first weeks
+ */
+function getWeight(state: RotationState, user: User, period?: Pick<PeriodInfo, 'startDate'>): number {
+  const ordering = state.config.ordering;
+  const weight = user.weight ?? 1;
+  const newMemberDays = ordering?.newMemberDays ?? DEFAULT_NEW_MEMBER_DAYS;
+
+  const isNewMember = period !== undefined && period.startDate.getTime() - Date.parse(user.startDate) < newMemberDays * DAY_MS;
+  return isNewMember ? weight * (ordering?.newMemberWeight ?? DEFAULT_NEW_MEMBER_WEIGHT) : weight;
+}
+
+/**
+ * Order users as the regular rotation would reach them after the current owner
+ */
+function inRegularOrder(state: RotationState, users: User[]): User[] {
+  const count = state.users.length;
+  const distance = (user: User) => (state.users.indexOf(user) - state.currentIndex - 1 + count) % count;
+  return [...users].sort((a, b) => distance(a) - distance(b));
+}
+
+function shuffle(state: RotationState, cycle: number): string[] {
+  const ids = state.users.map(user => user.id).sort();
+  const random = createRandom(`${state.config.ordering?.seed || state.startDate}:${cycle}`);
+
+  // Fisher-Yates
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j]!, ids[i]!];
+  }
+
+  return ids;
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) from a string seed (FNV-1a hash into mulberry32)
+ */
+function createRandom(seed: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+
+  let value = hash >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,65 @@
+import { PermissionDecision, PermissionLevel, RoleAssignment, RotationPermission, RotationState } from '../types';
+import { getCurrentOwner } from './rotationEngine';
+
+/**
+ * Who may do what when the rotation config doesn't say otherwise
+ */
+export const DEFAULT_PERMISSIONS: Record<RotationPermission, PermissionLevel> = {
+  skip: 'owner',
+  swap: 'admin',
+  set: 'admin',
+  editUsers: 'admin',
+  editSchedule: 'admin',
+};
+
+const PERMISSION_DESCRIPTIONS: Record<RotationPermission, string> = {
+  skip: 'skip the rotation',
+  swap: 'swap people in the rotation',
+  set: 'choose the current presenter',
+  editUsers: 'change who is in the rotation',
+  editSchedule: 'cancel meetings',
+};
+
+/**
+ * Whether the user is listed as an admin of the rotation
+ */
+export function isRotationAdmin(state: RotationState, userId: string): boolean {
+  return (state.config.admins || []).includes(userId);
+}
+
+/**
+ * Decide whether `actorId` may perform `permission` on the rotation. For an action on a role other
+ * than the presenter, whoever holds that `role` counts as the owner.
+ */
+export function checkPermission(
+  state: RotationState,
+  permission: RotationPermission,
+  actorId: string,
+  role?: RoleAssignment
+): PermissionDecision {
+  const level = state.config.permissions?.[permission] || DEFAULT_PERMISSIONS[permission];
+  const description = PERMISSION_DESCRIPTIONS[permission];
+
+  if (level === 'anyone' || isRotationAdmin(state, actorId)) {
+    return { allowed: true };
+  }
+
+  if (level === 'owner') {
+    const owner = role ? role.user : getCurrentOwner(state);
+    if (owner.id === actorId) {
+      return { allowed: true };
+    }
+
+    const holder = role ? `current ${role.role.name.toLowerCase()}` : 'current presenter';
+    return { allowed: false, reason: `Only the ${holder} (<@${owner.id}>) or a rotation admin can ${description}.` };
+  }
+
+  if ((state.config.admins || []).length === 0) {
+    return {
+      allowed: false,
+      reason: `Only rotation admins can ${description}, and none are configured. Add Slack user IDs to \`config.admins\`.`,
+    };
+  }
+
+  return { allowed: false, reason: `Only rotation admins can ${description}.` };
+}
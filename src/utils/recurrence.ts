@@ -0,0 +1,267 @@
+import { PeriodInfo } from '../types';
+
+/**
+ * The supported subset of an RFC 5545 RRULE: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY and BYMONTHDAY
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: Array<{ weekday: number; ordinal?: number }>; // ordinal: 1 = first, -1 = last (MONTHLY only)
+  byMonthDay: number[]; // 1-31, or -1 for the last day of the month (MONTHLY only)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Where periods are counted from for rotations without a start date (a Monday)
+const DEFAULT_ANCHOR = new Date(Date.UTC(2024, 0, 1));
+
+// How many empty FREQ units (e.g. months without a 5th Wednesday) to look through for an occurrence
+const MAX_EMPTY_UNITS = 24;
+
+// The Gregorian calendar repeats, weekdays included, every 400 years
+const CALENDAR_CYCLE_MONTHS = 400 * 12;
+
+/**
+ * Parse an RRULE such as "FREQ=MONTHLY;BYDAY=1WE,3WE" or "FREQ=WEEKLY;BYDAY=TU,TH"
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+    const [name = '', value = ''] = part.split('=');
+    parts.set(name.trim().toUpperCase(), value.trim().toUpperCase());
+  });
+
+  const unsupported = [...parts.keys()].filter(name => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY'].includes(name));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported RRULE part(s): ${unsupported.join(', ')} (use FREQ, INTERVAL, BYDAY and BYMONTHDAY)`);
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`RRULE FREQ must be DAILY, WEEKLY or MONTHLY, got "${freq || ''}"`);
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`RRULE INTERVAL must be a positive whole number, got "${parts.get('INTERVAL')}"`);
+  }
+
+  const byDay = (parts.get('BYDAY') || '').split(',').filter(Boolean).map(value => {
+    const match = value.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    const ordinal = match?.[1] ? parseInt(match[1], 10) : undefined;
+    if (!match || ordinal === 0 || (ordinal !== undefined && (freq !== 'MONTHLY' || Math.abs(ordinal) > 5))) {
+      throw new Error(`Invalid RRULE BYDAY value "${value}" (e.g. "WE", or "2WE"/"-1FR" with FREQ=MONTHLY)`);
+    }
+
+    return { weekday: WEEKDAYS.indexOf(match[2]!), ordinal };
+  });
+
+  const byMonthDay = (parts.get('BYMONTHDAY') || '').split(',').filter(Boolean).map(value => {
+    const day = Number(value);
+    if (freq !== 'MONTHLY' || !Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+      throw new Error(`Invalid RRULE BYMONTHDAY value "${value}" (1-31 or -1 for the last day, with FREQ=MONTHLY)`);
+    }
+
+    return day;
+  });
+
+  return { freq, interval, byDay, byMonthDay };
+}
+
+/**
+ * Get the period a date falls in: from the latest occurrence on or before it until the day before the next.
+ * FREQ units (and so INTERVAL) are counted from `anchorDate`, the rotation's start date.
+ */
+export function getRecurrencePeriod(date: Date, rule: RecurrenceRule, anchorDate?: string | Date): PeriodInfo {
+  const anchor = getAnchor(anchorDate);
+  const { unit, startDate } = findOccurrence(rule, anchor, date);
+  const next = findNextOccurrence(rule, anchor, startDate);
+
+  return {
+    periodNumber: getOccurrenceNumber(rule, anchor, unit, startDate),
+    startDate,
+    endDate: new Date(next.getTime() - 1),
+    year: startDate.getUTCFullYear(),
+    type: 'custom',
+  };
+}
+
+/**
+ * Count the occurrences between the periods containing two dates
+ */
+export function getRecurrencePeriodsBetween(
+  startDate: Date,
+  endDate: Date,
+  rule: RecurrenceRule,
+  anchorDate?: string | Date
+): number {
+  return getRecurrencePeriod(endDate, rule, anchorDate).periodNumber - getRecurrencePeriod(startDate, rule, anchorDate).periodNumber;
+}
+
+/**
+ * Get midnight (UTC fields) of the anchor date
+ */
+function getAnchor(anchorDate?: string | Date): Date {
+  const anchor = anchorDate ? new Date(anchorDate) : DEFAULT_ANCHOR;
+  if (isNaN(anchor.getTime())) {
+    throw new Error(`Invalid rotation start date: ${anchorDate}`);
+  }
+
+  return startOfDay(anchor);
+}
+
+/**
+ * Get the latest occurrence on or before `date`, and the FREQ unit it is in
+ */
+function findOccurrence(rule: RecurrenceRule, anchor: Date, date: Date): { unit: number; startDate: Date } {
+  const day = startOfDay(date);
+  const unit = getUnitIndex(rule, anchor, day);
+
+  for (let candidate = unit; candidate > unit - MAX_EMPTY_UNITS; candidate--) {
+    const occurrences = getOccurrencesInUnit(rule, anchor, candidate).filter(occurrence => occurrence <= day);
+    if (occurrences.length > 0) {
+      return { unit: candidate, startDate: occurrences[occurrences.length - 1]! };
+    }
+  }
+
+  throw new Error('The recurrence rule has no occurrences');
+}
+
+/**
+ * Get the first occurrence after `occurrence`
+ */
+function findNextOccurrence(rule: RecurrenceRule, anchor: Date, occurrence: Date): Date {
+  const unit = getUnitIndex(rule, anchor, occurrence);
+
+  for (let candidate = unit; candidate < unit + MAX_EMPTY_UNITS; candidate++) {
+    const next = getOccurrencesInUnit(rule, anchor, candidate).find(date => date > occurrence);
+    if (next) {
+      return next;
+    }
+  }
+
+  throw new Error('The recurrence rule has no occurrences');
+}
+
+/**
+ * Number an occurrence by counting occurrences from the anchor's unit (the first one in it is 1)
+ */
+function getOccurrenceNumber(rule: RecurrenceRule, anchor: Date, unit: number, occurrence: Date): number {
+  const withinUnit = getOccurrencesInUnit(rule, anchor, unit).filter(date => date <= occurrence).length;
+  const count = countOccurrences(rule, anchor, Math.min(unit, 0), Math.max(unit, 0));
+
+  return unit >= 0 ? count + withinUnit : withinUnit - count;
+}
+
+/**
+ * Count the occurrences in FREQ units `from` up to (not including) `to`. The units repeat every
+ * getRepeatingUnits(rule), so whole repeats are multiplied and only the units left over are enumerated.
+ */
+function countOccurrences(rule: RecurrenceRule, anchor: Date, from: number, to: number): number {
+  const countUnits = (start: number, end: number) => {
+    let count = 0;
+    for (let unit = start; unit < end; unit++) {
+      count += getOccurrencesInUnit(rule, anchor, unit).length;
+    }
+    return count;
+  };
+
+  const repeating = getRepeatingUnits(rule);
+  const repeats = Math.floor((to - from) / repeating);
+  const leftOver = from + repeats * repeating;
+
+  return (repeats > 0 ? repeats * countUnits(from, from + repeating) : 0) + countUnits(leftOver, to);
+}
+
+/**
+ * After how many FREQ units the occurrences fall on the same weekdays and days of the month again
+ */
+function getRepeatingUnits(rule: RecurrenceRule): number {
+  switch (rule.freq) {
+    case 'DAILY':
+      // 7 units of INTERVAL days are whole weeks
+      return 7;
+    case 'WEEKLY':
+      return 1;
+    case 'MONTHLY':
+      return CALENDAR_CYCLE_MONTHS / greatestCommonDivisor(CALENDAR_CYCLE_MONTHS, rule.interval);
+  }
+}
+
+/**
+ * Index of the FREQ unit (INTERVAL days, weeks or months, counted from the anchor's) containing `date`
+ */
+function getUnitIndex(rule: RecurrenceRule, anchor: Date, date: Date): number {
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.floor(Math.round((date.getTime() - anchor.getTime()) / DAY_MS) / rule.interval);
+    case 'WEEKLY':
+      return Math.floor(Math.round((startOfWeek(date).getTime() - startOfWeek(anchor).getTime()) / (7 * DAY_MS)) / rule.interval);
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + date.getUTCMonth() - anchor.getUTCMonth();
+      return Math.floor(months / rule.interval);
+    }
+  }
+}
+
+/**
+ * Get the occurrences in a FREQ unit, in order. Without BYDAY/BYMONTHDAY the anchor's weekday or day of month is used.
+ */
+function getOccurrencesInUnit(rule: RecurrenceRule, anchor: Date, unit: number): Date[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(anchor.getTime() + unit * rule.interval * DAY_MS);
+      const matches = rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === day.getUTCDay());
+      return matches ? [day] : [];
+    }
+
+    case 'WEEKLY': {
+      const weekStart = new Date(startOfWeek(anchor).getTime() + unit * rule.interval * 7 * DAY_MS);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [anchor.getUTCDay()];
+      return uniqueSorted(weekdays.map(weekday => new Date(weekStart.getTime() + ((weekday + 6) % 7) * DAY_MS)));
+    }
+
+    case 'MONTHLY': {
+      const year = anchor.getUTCFullYear();
+      const month = anchor.getUTCMonth() + unit * rule.interval;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const dayOf = (dayOfMonth: number) => new Date(Date.UTC(year, month, dayOfMonth));
+
+      const byMonthDay = rule.byDay.length === 0 && rule.byMonthDay.length === 0 ? [anchor.getUTCDate()] : rule.byMonthDay;
+      const monthDays = byMonthDay
+        .map(day => (day > 0 ? day : daysInMonth + day + 1))
+        .filter(day => day >= 1 && day <= daysInMonth);
+
+      const weekdayDays = rule.byDay.flatMap(({ weekday, ordinal }) => {
+        const first = ((weekday - dayOf(1).getUTCDay() + 7) % 7) + 1;
+        const all = Array.from({ length: 5 }, (_, i) => first + i * 7).filter(day => day <= daysInMonth);
+        if (ordinal === undefined) {
+          return all;
+        }
+
+        const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+        return day === undefined ? [] : [day];
+      });
+
+      return uniqueSorted([...monthDays, ...weekdayDays].map(dayOf));
+    }
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// RRULE weeks start on Monday (WKST=MO)
+function startOfWeek(date: Date): Date {
+  return new Date(startOfDay(date).getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+function uniqueSorted(dates: Date[]): Date[] {
+  return [...new Set(dates.map(date => date.getTime()))].sort((a, b) => a - b).map(time => new Date(time));
+}
@@ -0,0 +1,73 @@
+import { PeriodInfo, ReminderConfig, RotationConfig } from '../types';
+
+const OFFSET_UNITS_MS: Record<string, number> = {
+  d: 24 * 60 * 60 * 1000,
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+};
+
+/**
+ * Parse a reminder offset such as "2d", "1h" or "30m" into milliseconds
+ */
+export function parseReminderOffset(offset: string): number {
+  const match = offset.match(/^(\d+)([dhm])$/);
+  if (!match) {
+    throw new Error(`Invalid reminder offset "${offset}": use a number followed by d, h or m (e.g. "2d", "1h")`);
+  }
+
+  return parseInt(match[1]!, 10) * OFFSET_UNITS_MS[match[2]!]!;
+}
+
+/**
+ * Get when the meeting happens in a period: the first matching weekday at the configured time
+ */
+export function getMeetingTime(periodInfo: PeriodInfo, meeting: ReminderConfig['meeting']): Date {
+  const [hours = 0, minutes = 0] = meeting.time.split(':').map(part => parseInt(part, 10));
+  const meetingAt = new Date(periodInfo.startDate);
+  const daysAhead = (meeting.dayOfWeek - meetingAt.getUTCDay() + 7) % 7;
+
+  meetingAt.setUTCDate(meetingAt.getUTCDate() + daysAhead);
+  meetingAt.setUTCHours(hours, minutes, 0, 0);
+
+  return meetingAt;
+}
+
+// When the built-in scheduler notifies if the schedule has no time (the GitHub Actions cron's hour)
+export const DEFAULT_NOTIFICATION_TIME = '09:00';
+
+/**
+ * Get when the built-in scheduler sends a period's notification: the first `schedule.dayOfWeek`
+ * in the period (else its first day) at `schedule.time`
+ */
+export function getNotificationTime(periodInfo: PeriodInfo, schedule: RotationConfig['schedule']): Date {
+  return getMeetingTime(periodInfo, {
+    dayOfWeek: schedule?.dayOfWeek ?? periodInfo.startDate.getUTCDay(),
+    time: schedule?.time || DEFAULT_NOTIFICATION_TIME,
+  });
+}
+
+/**
+ * Get the reminder offsets that are due but not yet sent, latest (closest to the meeting) first.
+ * Nothing is due once the meeting has started.
+ */
+export function getDueReminderOffsets(
+  reminders: ReminderConfig,
+  meetingAt: Date,
+  now: Date,
+  isSent: (offset: string) => boolean
+): string[] {
+  if (now >= meetingAt) {
+    return [];
+  }
+
+  return reminders.before
+    .filter(offset => !isSent(offset) && now.getTime() >= meetingAt.getTime() - parseReminderOffset(offset))
+    .sort((a, b) => parseReminderOffset(a) - parseReminderOffset(b));
+}
+
+/**
+ * Key recorded in `RotationState.sentReminders` once a reminder is sent
+ */
+export function getReminderKey(period: string, offset: string): string {
+  return `${period}@${offset}`;
+}
@@ -0,0 +1,147 @@
+import { PeriodInfo, RoleAssignment, RoleConfig, RotationState, User } from '../types';
+import { getPeriodsBetween } from './dateUtils';
+import { isUserEligible } from './rotationEngine';
+
+/**
+ * Roles let a period have several people, e.g. an emcee and a note-taker. The first role is
+ * whoever the rotation assigns (so skips, swaps and ordering all apply to it); the others are
+ * derived from it each period, so previews and read-only contexts need no extra state:
+ *
+ * - offset roles go to the user `offset` places after the presenter in the user order
+ * - queue roles rotate through their own `users`, one per period since the rotation started
+ *
+ * Nobody fills two roles in a period while someone else can, and users who are out of office
+ * or outside their start and end dates are passed over. Skipping a role stores who takes it for the rest of the period in `roleOverrides`.
+ */
+
+export function getRoles(state: RotationState): RoleConfig[] {
+  return state.config.roles || [];
+}
+
+/**
+ * Who fills each role in a period, the presenter first (empty when the rotation has no roles)
+ */
+export function getRoleAssignments(state: RotationState, presenter: User, periodInfo: PeriodInfo): RoleAssignment[] {
+  const [presenterRole, ...others] = getRoles(state);
+  if (!presenterRole) {
+    return [];
+  }
+
+  const period = toPeriodKey(periodInfo);
+  const assignments: RoleAssignment[] = [{ role: presenterRole, user: presenter }];
+  for (const role of others) {
+    const candidates = getRoleCandidates(state, role, presenter, periodInfo);
+    const override = state.roleOverrides?.[role.id];
+    const overridden = override?.period === period
+      ? pickRoleUser(candidates.filter(user => user.id === override.userId), assignments, periodInfo)
+      : undefined;
+
+    // With fewer people than roles, someone has to double up
+    const user = overridden || pickRoleUser(candidates, assignments, periodInfo) || candidates[0];
+    if (user) {
+      assignments.push({ role, user });
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Hand a role other than the presenter to the next person in its order for the rest of the period
+ */
+export function skipRoleUser(
+  state: RotationState,
+  roleId: string,
+  presenter: User,
+  periodInfo: PeriodInfo
+): { skippedUser: User; newUser: User; role: RoleConfig } {
+  const assignments = getRoleAssignments(state, presenter, periodInfo);
+  const index = assignments.findIndex(assignment => assignment.role.id === roleId);
+  if (index === 0) {
+    throw new Error(`${assignments[0]!.role.name} is the presenter role; skip the rotation instead`);
+  }
+
+  const assignment = assignments[index];
+  if (!assignment) {
+    throw new Error(`Unknown role "${roleId}"`);
+  }
+
+  // Everyone after the current holder in the role's order
+  const candidates = getRoleCandidates(state, assignment.role, presenter, periodInfo);
+  const position = candidates.findIndex(user => user.id === assignment.user.id);
+  const next = rotate(candidates, position + 1).filter(user => user.id !== assignment.user.id);
+  const newUser = pickRoleUser(next, assignments, periodInfo);
+  if (!newUser) {
+    throw new Error(`Nobody else can be ${assignment.role.name} this period`);
+  }
+
+  state.roleOverrides = { ...state.roleOverrides, [roleId]: { period: toPeriodKey(periodInfo), userId: newUser.id } };
+  return { skippedUser: assignment.user, newUser, role: assignment.role };
+}
+
+/**
+ * Check the roles of a rotation config, returning why they are invalid (or undefined if they are fine)
+ */
+export function getRolesError(roles: RoleConfig[]): string | undefined {
+  if (!Array.isArray(roles) || roles.length === 0) {
+    return 'roles must be a non-empty array of { id, name }';
+  }
+
+  const ids = new Set<string>();
+  for (const role of roles) {
+    if (typeof role.id !== 'string' || !/^[\w-]+$/.test(role.id) || typeof role.name !== 'string' || role.name === '') {
+      return 'Each role needs an id (letters, digits, - or _) and a name';
+    }
+    if (ids.has(role.id)) {
+      return `Duplicate role id: ${role.id}`;
+    }
+    ids.add(role.id);
+
+    if (role === roles[0] && (role.offset !== undefined || role.users !== undefined)) {
+      return `The first role (${role.id}) is the presenter, so it can't have an offset or users`;
+    }
+    if (role.offset !== undefined && role.users !== undefined) {
+      return `Role ${role.id} can have an offset or its own users, not both`;
+    }
+    if (role.offset !== undefined && (!Number.isInteger(role.offset) || role.offset < 1)) {
+      return `The offset of role ${role.id} must be a whole number of 1 or more`;
+    }
+    if (role.users !== undefined && (!Array.isArray(role.users) || role.users.length === 0 || role.users.some(id => typeof id !== 'string'))) {
+      return `The users of role ${role.id} must be a non-empty array of Slack user IDs`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Everyone who could fill a role in a period, starting with whoever it falls to
+ */
+function getRoleCandidates(state: RotationState, role: RoleConfig, presenter: User, periodInfo: PeriodInfo): User[] {
+  if (role.users) {
+    // Queue members don't have to present, so they may not be rotation users
+    const queue = role.users.map(id => state.users.find(user => user.id === id) || { id, startDate: state.startDate });
+    const periodsSinceStart = getPeriodsBetween(new Date(state.startDate), periodInfo.startDate, state.config, state.startDate);
+    return rotate(queue, periodsSinceStart);
+  }
+
+  const presenterIndex = state.users.findIndex(user => user.id === presenter.id);
+  return rotate(state.users, presenterIndex + (role.offset ?? 1));
+}
+
+/**
+ * The first available candidate without a role yet, else the first without a role
+ */
+function pickRoleUser(candidates: User[], assignments: RoleAssignment[], periodInfo: PeriodInfo): User | undefined {
+  const free = candidates.filter(user => !assignments.some(assignment => assignment.user.id === user.id));
+  return free.find(user => isUserEligible(user, periodInfo)) || free[0];
+}
+
+function rotate<T>(items: T[], start: number): T[] {
+  const offset = ((start % items.length) + items.length) % items.length;
+  return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+function toPeriodKey(periodInfo: PeriodInfo): string {
+  return periodInfo.startDate.toISOString().substring(0, 10);
+}
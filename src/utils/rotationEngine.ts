@@ -0,0 +1,331 @@
+import { PeriodInfo, RotationState, SkipMode, User } from '../types';
+import { getOrderingStrategy, pickNextUserIndex, recordServed } from './ordering';
+
+export type RotationPeriodWindow = Pick<PeriodInfo, 'startDate' | 'endDate'>;
+
+/**
+ * Pure rotation state transitions shared by the stores, RotationService and previews.
+ *
+ * The regular order is `users[currentIndex]`. A skipped user can be owed a make-up
+ * turn (`deferredUserIds`); while one is being served, `activeUserId` names them and
+ * `users[currentIndex]` has already presented.
+ *
+ * Transitions that are given the period being assigned pass over users who are out of
+ * office during it and queue them for a make-up turn once they are back. Users outside
+ * their `startDate`–`endDate` window are passed over without a make-up turn.
+ *
+ * Who comes next in the regular order follows `config.ordering` (see ./ordering);
+ * round-robin steps through `users`.
+ */
+
+/**
+ * Get the user presenting in the current period
+ */
+export function getCurrentOwner(state: RotationState): User {
+  if (state.users.length === 0) {
+    throw new Error('No users in rotation');
+  }
+
+  const activeUser = state.activeUserId
+    ? state.users.find(user => user.id === state.activeUserId)
+    : undefined;
+
+  return activeUser || state.users[state.currentIndex % state.users.length]!;
+}
+
+/**
+ * Whether none of the user's unavailable ranges overlap the period
+ */
+export function isUserAvailable(user: User, period: RotationPeriodWindow): boolean {
+  const periodStart = toISODate(period.startDate);
+  const periodEnd = toISODate(period.endDate);
+
+  return !(user.unavailable || []).some(range => range.start <= periodEnd && range.end >= periodStart);
+}
+
+/**
+ * Whether the period falls within the user's time in the rotation: it starts on or after
+ * their `startDate` and ends on or before their `endDate`
+ */
+export function isUserActive(user: User, period: RotationPeriodWindow): boolean {
+  return user.startDate.substring(0, 10) <= toISODate(period.startDate) && (!user.endDate || user.endDate >= toISODate(period.endDate));
+}
+
+/**
+ * Whether the user can present in the period: in the rotation and not out of office
+ */
+export function isUserEligible(user: User, period: RotationPeriodWindow): boolean {
+  return isUserActive(user, period) && isUserAvailable(user, period);
+}
+
+/**
+ * Add a user to the regular order according to `config.newcomerPlacement`:
+ *
+ * - end-of-queue: at the end of `users`, presenting when the current pass through the list gets there
+ * - next-cycle: just before the current owner, after everyone else's next turn, so nobody's turn moves
+ */
+export function insertUser(state: RotationState, user: User): void {
+  if (state.users.some(existing => existing.id === user.id)) {
+    throw new Error(`User with ID ${user.id} already exists in rotation`);
+  }
+
+  if (state.config.newcomerPlacement === 'next-cycle' && state.users.length > 0) {
+    state.users.splice(state.currentIndex, 0, user);
+    state.currentIndex++;
+  } else {
+    state.users.push(user);
+  }
+}
+
+/**
+ * Take a user out of the rotation, keeping the current owner current (or making the next
+ * user current if it was them), and drop any make-up turn they were owed or serving
+ */
+export function deleteUser(state: RotationState, userId: string): void {
+  const userIndex = state.users.findIndex(u => u.id === userId);
+
+  if (userIndex === -1) {
+    throw new Error(`User with ID ${userId} not found in rotation`);
+  }
+
+  if (state.users.length === 1) {
+    throw new Error('Cannot remove last user from rotation');
+  }
+
+  if (userIndex < state.currentIndex) {
+    state.currentIndex--;
+  } else if (userIndex === state.currentIndex && state.currentIndex >= state.users.length - 1) {
+    state.currentIndex = 0;
+  }
+
+  state.users.splice(userIndex, 1);
+
+  if (state.activeUserId === userId) {
+    state.activeUserId = undefined;
+  }
+  if (state.deferredUserIds) {
+    state.deferredUserIds = state.deferredUserIds.filter(id => id !== userId);
+  }
+}
+
+/**
+ * Move to the next period's owner: a deferred user's make-up turn comes first,
+ * otherwise the next user in the regular order. With a period, users who are
+ * unavailable during it are passed over (and deferred, in round-robin order).
+ */
+export function advanceAssignment(state: RotationState, period?: RotationPeriodWindow): void {
+  if (state.users.length === 0) {
+    throw new Error('No users in rotation');
+  }
+
+  const nextDeferred = takeNextDeferred(state, period);
+  if (nextDeferred) {
+    state.activeUserId = nextDeferred;
+  } else {
+    state.activeUserId = undefined;
+    state.currentIndex = getOrderingStrategy(state) === 'round-robin'
+      ? getNextRoundRobinIndex(state, period)
+      : pickNextUserIndex(state, user => !period || isUserEligible(user, period), period) ??
+        // Nobody is available: pick as if everyone were, rather than leaving the period unowned
+        pickNextUserIndex(state, () => true, period)!;
+  }
+
+  if (period) {
+    recordServed(state, getCurrentOwner(state).id, period);
+  }
+}
+
+/**
+ * If the current owner can't present in the period, hand it to the next eligible user,
+ * deferring the owner if they are only out of office. Returns the user who was passed over.
+ */
+export function passOverUnavailableOwner(state: RotationState, period: RotationPeriodWindow): User | undefined {
+  const currentOwner = getCurrentOwner(state);
+  if (isUserEligible(currentOwner, period)) {
+    return undefined;
+  }
+
+  const hasEligibleUser = state.users.some(user => user.id !== currentOwner.id && isUserEligible(user, period));
+  if (!hasEligibleUser) {
+    return undefined;
+  }
+
+  if (isUserActive(currentOwner, period)) {
+    deferUser(state, currentOwner.id);
+  }
+  advanceAssignment(state, period);
+  return currentOwner;
+}
+
+/**
+ * Hand the current period to someone else without costing the current owner their turn.
+ *
+ * - advance: the current owner simply loses their turn
+ * - defer: the next regular user presents now and the current owner is queued for a make-up turn
+ * - swap: the current owner trades places with the next user in the regular order
+ */
+export function skipCurrentOwner(state: RotationState, mode: SkipMode, period?: RotationPeriodWindow): void {
+  if (state.users.length < 2) {
+    throw new Error('Cannot skip a rotation with fewer than two users');
+  }
+
+  const currentOwner = getCurrentOwner(state);
+
+  // A make-up turn can't be swapped in the regular order, so it is deferred again
+  if (mode === 'swap' && !state.activeUserId) {
+    const nextIndex = (state.currentIndex + 1) % state.users.length;
+    const nextUser = state.users[nextIndex]!;
+    state.users[nextIndex] = currentOwner;
+    state.users[state.currentIndex] = nextUser;
+    return;
+  }
+
+  if (mode !== 'advance') {
+    deferUser(state, currentOwner.id);
+  }
+
+  state.activeUserId = undefined;
+  state.currentIndex = getOrderingStrategy(state) === 'round-robin'
+    ? (state.currentIndex + 1) % state.users.length
+    : pickNextUserIndex(state, user => user.id !== currentOwner.id, period)!;
+
+  if (period) {
+    recordServed(state, getCurrentOwner(state).id, period);
+  }
+}
+
+/**
+ * Make a specific user the current owner, settling any make-up turn they were owed
+ */
+export function assignCurrentOwner(state: RotationState, userId: string, period?: RotationPeriodWindow): void {
+  const userIndex = state.users.findIndex(user => user.id === userId);
+  if (userIndex === -1) {
+    throw new Error(`User with ID ${userId} not found in rotation`);
+  }
+
+  state.currentIndex = userIndex;
+  state.activeUserId = undefined;
+  state.deferredUserIds = (state.deferredUserIds || []).filter(id => id !== userId);
+
+  if (period) {
+    recordServed(state, userId, period);
+  }
+}
+
+/**
+ * Exchange two users' places in the regular order
+ */
+export function swapUsers(state: RotationState, firstUserId: string, secondUserId: string): void {
+  const firstIndex = state.users.findIndex(user => user.id === firstUserId);
+  const secondIndex = state.users.findIndex(user => user.id === secondUserId);
+  if (firstIndex === -1 || secondIndex === -1) {
+    throw new Error(`User with ID ${firstIndex === -1 ? firstUserId : secondUserId} not found in rotation`);
+  }
+
+  const firstUser = state.users[firstIndex]!;
+  state.users[firstIndex] = state.users[secondIndex]!;
+  state.users[secondIndex] = firstUser;
+}
+
+/**
+ * Simulate the owners of the given periods (the first being the current one)
+ * without touching the stored state.
+ *
+ * The rotation doesn't advance into a `cancelled` period (one without a meeting); its owner
+ * is whoever presents next. With `holdCurrentOwner`, the current owner was assigned during a
+ * cancelled current period and keeps their turn for the next real meeting.
+ */
+export function getUpcomingOwners(
+  state: RotationState,
+  periods: RotationPeriodWindow[],
+  blackouts: { cancelled?: boolean[]; holdCurrentOwner?: boolean } = {}
+): User[] {
+  const simulated = structuredClone(state);
+  let held = blackouts.holdCurrentOwner === true;
+
+  const owners = periods.map((period, i) => {
+    if (blackouts.cancelled?.[i]) {
+      return undefined;
+    }
+
+    if (i > 0 && !held) {
+      advanceAssignment(simulated, period);
+    }
+    held = false;
+    passOverUnavailableOwner(simulated, period);
+    return getCurrentOwner(simulated);
+  });
+
+  // A cancelled period shows who presents at the next meeting, simulating one more turn past the last period
+  return owners.map((owner, i) => owner || owners.slice(i).find(Boolean) || getNextOwner(simulated, held));
+}
+
+/**
+ * Get who takes the next turn, without changing the state
+ */
+function getNextOwner(state: RotationState, held: boolean): User {
+  const next = structuredClone(state);
+  if (!held) {
+    advanceAssignment(next);
+  }
+
+  return getCurrentOwner(next);
+}
+
+/**
+ * Get the next user in `users` order who is eligible during the period, deferring
+ * anyone passed over for being out of office
+ */
+function getNextRoundRobinIndex(state: RotationState, period?: RotationPeriodWindow): number {
+  const userCount = state.users.length;
+  for (let step = 1; step <= userCount; step++) {
+    const index = (state.currentIndex + step) % userCount;
+    if (period && !isUserEligible(state.users[index]!, period)) {
+      continue;
+    }
+
+    for (let passed = 1; passed < step; passed++) {
+      const passedUser = state.users[(state.currentIndex + passed) % userCount]!;
+      if (period && isUserActive(passedUser, period)) {
+        deferUser(state, passedUser.id);
+      }
+    }
+    return index;
+  }
+
+  // Nobody is eligible: keep the regular order rather than leaving the period unowned
+  return (state.currentIndex + 1) % userCount;
+}
+
+/**
+ * Remove and return the first deferred user who is still part of the rotation
+ * (and eligible during the period, if one is given). Users who have left drop out of the queue.
+ */
+function takeNextDeferred(state: RotationState, period?: RotationPeriodWindow): string | undefined {
+  const queue = (state.deferredUserIds || []).filter(userId => {
+    const user = state.users.find(candidate => candidate.id === userId);
+    return user !== undefined && (!period || !user.endDate || user.endDate >= toISODate(period.endDate));
+  });
+  const position = queue.findIndex(userId => {
+    const user = state.users.find(candidate => candidate.id === userId)!;
+    return !period || isUserEligible(user, period);
+  });
+  const userId = position >= 0 ? queue.splice(position, 1)[0] : undefined;
+
+  state.deferredUserIds = queue.length > 0 ? queue : undefined;
+  return userId;
+}
+
+/**
+ * Queue a make-up turn for the user; someone passed over repeatedly is only owed one
+ */
+function deferUser(state: RotationState, userId: string): void {
+  const queue = state.deferredUserIds || [];
+  if (!queue.includes(userId)) {
+    state.deferredUserIds = [...queue, userId];
+  }
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
@@ -0,0 +1,33 @@
+import { isAuthorizedApiRequest, isAuthorizedCalendarRequest } from '../src/utils/apiAuth';
+
+describe('isAuthorizedApiRequest', () => {
+  it('should accept the configured bearer token', () => {
+    expect(isAuthorizedApiRequest('Bearer secret-token', 'secret-token')).toBe(true);
+  });
+
+  it('should reject missing, malformed or wrong tokens', () => {
+    expect(isAuthorizedApiRequest(undefined, 'secret-token')).toBe(false);
+    expect(isAuthorizedApiRequest('secret-token', 'secret-token')).toBe(false);
+    expect(isAuthorizedApiRequest('Bearer other-token', 'secret-token')).toBe(false);
+    expect(isAuthorizedApiRequest(['Bearer secret-token'], 'secret-token')).toBe(false);
+  });
+
+  it('should reject every request when no token is configured', () => {
+    expect(isAuthorizedApiRequest('Bearer ', '')).toBe(false);
+    expect(isAuthorizedApiRequest('Bearer anything', '')).toBe(false);
+  });
+});
+
+describe('isAuthorizedCalendarRequest', () => {
+  it('should accept only the configured calendar token', () => {
+    expect(isAuthorizedCalendarRequest('calendar-token', 'calendar-token')).toBe(true);
+    expect(isAuthorizedCalendarRequest('secret-token', 'calendar-token')).toBe(false);
+    expect(isAuthorizedCalendarRequest(['calendar-token'], 'calendar-token')).toBe(false);
+    expect(isAuthorizedCalendarRequest(undefined, 'calendar-token')).toBe(false);
+  });
+
+  it('should reject every request when no calendar token is configured', () => {
+    expect(isAuthorizedCalendarRequest('', '')).toBe(false);
+    expect(isAuthorizedCalendarRequest('anything', '')).toBe(false);
+  });
+});
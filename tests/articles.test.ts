@@ -0,0 +1,47 @@
+import { escapeMrkdwn, formatArticleLink, getArticleSubmissionError, searchArticles } from '../src/utils/articles';
+import { Article } from '../src/types';
+
+function article(period: string, title: string, summary?: string): Article {
+  return {
+    period,
+    userId: 'U1',
+    title,
+    url: `https://example.com/${period}`,
+    summary,
+    submittedAt: `${period}T09:00:00.000Z`,
+    submittedBy: 'U1',
+  };
+}
+
+describe('articles', () => {
+  it('should accept a titled http(s) link and explain anything else', () => {
+    expect(getArticleSubmissionError({ title: 'Out of the Tar Pit', url: 'https://curtclifton.net/papers/MoseleyMarks06a.pdf' })).toBeUndefined();
+    expect(getArticleSubmissionError({ title: '  ', url: 'https://example.com' })).toBe('Give the article a title');
+    expect(getArticleSubmissionError({ title: 'Notes', url: 'ftp://example.com/notes' })).toBe('The link must start with http:// or https://');
+    expect(getArticleSubmissionError({ title: 'Notes', url: 'example.com' })).toBe('"example.com" isn\'t a valid link');
+  });
+
+  it('should escape what users typed so it renders as text in mrkdwn', () => {
+    expect(escapeMrkdwn('<!channel> & <@U2> <https://evil.example|click>')).toBe('&lt;!channel&gt; &amp; &lt;@U2&gt; &lt;https://evil.example|click&gt;');
+    expect(formatArticleLink({ title: 'Hi <!here>', url: 'https://example.com/a?x=1&y=<2>' })).toBe('<https://example.com/a?x=1&amp;y=%3C2%3E|Hi &lt;!here&gt;>');
+    expect(formatArticleLink({ title: 'Split', url: 'https://example.com/a|<!channel>' })).toBe('<https://example.com/a%7C%3C!channel%3E|Split>');
+  });
+
+  it('should only link http(s) articles', () => {
+    expect(formatArticleLink({ title: 'Notes', url: 'javascript:alert(1)' })).toBe('Notes');
+    expect(formatArticleLink({ title: 'Notes', url: 'slack://channel?id=C1' })).toBe('Notes');
+    expect(formatArticleLink({ title: 'Notes', url: 'not a link' })).toBe('Notes');
+  });
+
+  it('should match every search word in the title, link or summary, newest first', () => {
+    const articles = [
+      article('2025-01-17', 'Designing Data-Intensive Applications', 'Chapter 5 on replication'),
+      article('2025-01-24', 'Postgres replication internals'),
+      article('2025-01-31', 'On code review'),
+    ];
+
+    expect(searchArticles(articles, 'REPLICATION').map(found => found.period)).toEqual(['2025-01-24', '2025-01-17']);
+    expect(searchArticles(articles, 'replication postgres').map(found => found.period)).toEqual(['2025-01-24']);
+    expect(searchArticles(articles).map(found => found.period)).toEqual(['2025-01-31', '2025-01-24', '2025-01-17']);
+  });
+});
@@ -0,0 +1,77 @@
+import { getPeriodBlackout, mergeBlackouts, parseIcsBlackouts } from '../src/utils/blackouts';
+import { PeriodInfo, RotationConfig } from '../src/types';
+
+// Friday 2025-11-21 to Thursday 2025-11-27
+const thanksgivingWeek: PeriodInfo = {
+  periodNumber: 47,
+  startDate: new Date('2025-11-21T00:00:00.000Z'),
+  endDate: new Date('2025-11-27T23:59:59.999Z'),
+  year: 2025,
+  type: 'week',
+};
+
+describe('blackouts', () => {
+  describe('getPeriodBlackout', () => {
+    const blackouts = [{ start: '2025-11-26', end: '2025-11-26', reason: 'Thanksgiving Eve' }];
+
+    it('should cancel the period when its meeting day is blacked out', () => {
+      const config: RotationConfig = {
+        frequency: 'weekly',
+        blackouts,
+        reminders: { meeting: { dayOfWeek: 3, time: '10:00' }, before: [] },
+      };
+
+      expect(getPeriodBlackout(thanksgivingWeek, config)?.reason).toBe('Thanksgiving Eve');
+      expect(getPeriodBlackout(thanksgivingWeek, { ...config, reminders: { meeting: { dayOfWeek: 1, time: '10:00' }, before: [] } })).toBeUndefined();
+    });
+
+    it('should use the first day of the period without a meeting day', () => {
+      expect(getPeriodBlackout(thanksgivingWeek, { frequency: 'weekly', blackouts })).toBeUndefined();
+      expect(getPeriodBlackout(thanksgivingWeek, { frequency: 'weekly', blackouts: [{ start: '2025-11-21', end: '2025-11-21' }] })).toBeDefined();
+    });
+  });
+
+  describe('parseIcsBlackouts', () => {
+    it('should read all-day and timed events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20251127',
+        'DTEND;VALUE=DATE:20251129',
+        'SUMMARY:Thanksgiving\\, company',
+        '  holiday',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/New_York:20260115T090000',
+        'DTEND;TZID=America/New_York:20260115T170000',
+        'SUMMARY:Offsite',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:No start date',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      expect(parseIcsBlackouts(ics)).toEqual([
+        { start: '2025-11-27', end: '2025-11-28', reason: 'Thanksgiving, company holiday' },
+        { start: '2026-01-15', end: '2026-01-15', reason: 'Offsite' },
+      ]);
+    });
+
+    it('should treat an all-day event without DTEND as one day', () => {
+      expect(parseIcsBlackouts('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20251225\nEND:VEVENT')).toEqual([
+        { start: '2025-12-25', end: '2025-12-25' },
+      ]);
+    });
+  });
+
+  describe('mergeBlackouts', () => {
+    it('should skip ranges already listed and keep them in date order', () => {
+      const christmas = { start: '2025-12-25', end: '2025-12-25' };
+      const thanksgiving = { start: '2025-11-27', end: '2025-11-28' };
+
+      expect(mergeBlackouts([christmas], [thanksgiving, { ...christmas, reason: 'Christmas' }])).toEqual([thanksgiving, christmas]);
+    });
+  });
+});
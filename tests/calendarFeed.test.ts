@@ -0,0 +1,79 @@
+import { renderRotationCalendar } from '../src/utils/calendarFeed';
+import { ScheduledPeriod } from '../src/types';
+
+// Friday-to-Thursday weeks starting 2025-11-14
+function week(index: number, userId: string): ScheduledPeriod {
+  return {
+    user: { id: userId, startDate: '2025-01-17' },
+    periodInfo: {
+      periodNumber: 46 + index,
+      startDate: new Date(Date.UTC(2025, 10, 14 + index * 7)),
+      endDate: new Date(Date.UTC(2025, 10, 20 + index * 7, 23, 59, 59, 999)),
+      year: 2025,
+      type: 'week',
+    },
+    periodNumber: index + 1,
+  };
+}
+
+describe('renderRotationCalendar', () => {
+  const schedule = [
+    week(0, 'U1'),
+    { ...week(1, 'U2'), blackout: { start: '2025-11-26', end: '2025-11-26', reason: 'Thanksgiving' } },
+    week(2, 'U2'),
+  ];
+  const now = new Date('2025-11-10T08:30:00.000Z');
+
+  const events = (calendar: string) => calendar.split('BEGIN:VEVENT').slice(1);
+
+  it('should render one all-day event per period with stable UIDs', () => {
+    const calendar = renderRotationCalendar(schedule, {
+      rotationId: 'eng-review',
+      rotationName: 'Engineering Review',
+      names: new Map([['U1', 'Jane Doe']]),
+      now,
+    });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar).toContain('X-WR-CALNAME:Engineering Review\r\n');
+    expect(events(calendar)).toHaveLength(3);
+    expect(events(calendar)[0]).toContain(
+      [
+        'UID:eng-review-2025-11-14@pan-eng-review-rotation',
+        'DTSTAMP:20251110T083000Z',
+        'DTSTART;VALUE=DATE:20251114',
+        'DTEND;VALUE=DATE:20251121',
+        'SUMMARY:Jane Doe presenting (Engineering Review)',
+      ].join('\r\n')
+    );
+    expect(events(calendar)[1]).toContain('SUMMARY:No Engineering Review meeting (Thanksgiving)');
+    expect(events(calendar)[2]).toContain('SUMMARY:U2 presenting (Engineering Review)');
+  });
+
+  it('should put events on the meeting day and filter to one user', () => {
+    const calendar = renderRotationCalendar(schedule, {
+      rotationId: 'eng-review',
+      meeting: { dayOfWeek: 3, time: '10:00' },
+      userId: 'U2',
+      now,
+    });
+
+    // U2's cancelled Thanksgiving turn is left out
+    expect(events(calendar)).toHaveLength(1);
+    expect(events(calendar)[0]).toContain('DTSTART;VALUE=DATE:20251203\r\nDTEND;VALUE=DATE:20251204');
+    expect(calendar).toContain('X-WR-CALNAME:eng-review: U2\r\n');
+  });
+
+  it('should escape text and fold long lines', () => {
+    const calendar = renderRotationCalendar([week(0, 'U1')], {
+      rotationId: 'staff-doc',
+      rotationName: 'Docs; reviews, and a very long rotation name that needs folding across lines',
+      now,
+    });
+    const summary = calendar.split('\r\n').findIndex(line => line.startsWith('SUMMARY:'));
+
+    expect(calendar).toContain('Docs\\; reviews\\, and');
+    expect(calendar.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(calendar.split('\r\n')[summary + 1]!.startsWith(' ')).toBe(true);
+  });
+});
@@ -0,0 +1,15 @@
+import { resolveRotation } from '../src/config';
+
+describe('resolveRotation', () => {
+  it('should default to the registry\'s default rotation', () => {
+    const { rotationId, definition, defaultRotationId } = resolveRotation(undefined, 'C1');
+
+    expect(rotationId).toBe(defaultRotationId);
+    expect(definition).toMatchObject({ id: defaultRotationId, slackChannelId: 'C1' });
+  });
+
+  it('should leave out the definition of an unknown rotation', () => {
+    expect(resolveRotation('nope', 'C1')).toMatchObject({ rotationId: 'nope', definition: undefined });
+    expect(resolveRotation(['nope', 'staff-doc'], 'C1')).toMatchObject({ rotationId: 'nope', definition: undefined });
+  });
+});
@@ -1,4 +1,5 @@
-import { getISOWeek, getCustomWeek, getWeeksBetween, isNewWeek, formatDateRange, getRotationPeriod } from '../src/utils/dateUtils';
+import { getISOWeek, getCustomWeek, getWeeksBetween, isNewWeek, formatDateRange, getRotationPeriod, getPeriodsBetween, toZonedWallClock } from '../src/utils/dateUtils';
+import { RotationConfig } from '../src/types';
 
 describe('dateUtils', () => {
   describe('getISOWeek', () => {
@@ -47,6 +48,13 @@ describe('dateUtils', () => {
       expect(weeks).toBe(0);
     });
 
+    it('should count across a year with 53 ISO weeks', () => {
+      const start = new Date(Date.UTC(2019, 0, 7)); // Week 2 of 2019
+      const end = new Date(Date.UTC(2021, 0, 4)); // Week 1 of 2021, after 2020's week 53
+
+      expect(getWeeksBetween(start, end)).toBe(104);
+    });
+
     it('should handle negative differences', () => {
       const start = new Date(Date.UTC(2024, 0, 15));
       const end = new Date(Date.UTC(2024, 0, 1));
@@ -168,4 +176,126 @@ describe('dateUtils', () => {
       expect(formatted).toContain('2024');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('period anchoring', () => {
+    const startOf = (periodInfo: { startDate: Date }) => periodInfo.startDate.toISOString().substring(0, 10);
+
+    it.each([0, 1, 2, 3, 4, 5, 6])('should start weekly periods on weekday %i', dayOfWeek => {
+      const config: RotationConfig = { frequency: 'weekly', schedule: { dayOfWeek, time: '09:00' } };
+      const date = new Date(Date.UTC(2025, 0, 22, 12)); // Wednesday
+
+      const periodInfo = getRotationPeriod(date, config);
+
+      expect(periodInfo.startDate.getUTCDay()).toBe(dayOfWeek);
+      expect(periodInfo.startDate.getTime()).toBeLessThanOrEqual(date.getTime());
+      expect(periodInfo.endDate.getTime()).toBeGreaterThanOrEqual(date.getTime());
+    });
+
+    it('should count Sunday-start weeks from Sunday', () => {
+      const config: RotationConfig = { frequency: 'weekly', schedule: { dayOfWeek: 0, time: '09:00' } };
+
+      // Saturday and the following Sunday fall in different periods
+      expect(getPeriodsBetween(new Date(Date.UTC(2025, 0, 25)), new Date(Date.UTC(2025, 0, 26)), config)).toBe(1);
+    });
+
+    it('should keep bi-weekly periods two weeks long across New Year in a 53-week year', () => {
+      const config: RotationConfig = { frequency: 'bi-weekly' };
+      const anchor = '2026-12-14';
+      const periods = ['2026-12-20', '2026-12-28', '2027-01-08', '2027-01-11'].map(date =>
+        getRotationPeriod(new Date(`${date}T12:00:00.000Z`), config, anchor)
+      );
+
+      expect(periods.map(startOf)).toEqual(['2026-12-14', '2026-12-28', '2026-12-28', '2027-01-11']);
+      expect(periods.map(periodInfo => periodInfo.periodNumber)).toEqual([1, 2, 2, 3]);
+      expect(periods[1]!.endDate.toISOString()).toBe('2027-01-10T23:59:59.999Z');
+    });
+
+    it('should count bi-weekly periods from the anchor, not whole weeks', () => {
+      const config: RotationConfig = { frequency: 'bi-weekly', schedule: { dayOfWeek: 5, time: '09:00' } };
+      const anchor = '2025-01-17';
+
+      // One week apart, but across a period boundary
+      expect(getPeriodsBetween(new Date('2025-01-24T09:00:00.000Z'), new Date('2025-01-31T09:00:00.000Z'), config, anchor)).toBe(1);
+      expect(getPeriodsBetween(new Date('2025-01-17T09:00:00.000Z'), new Date('2025-01-24T09:00:00.000Z'), config, anchor)).toBe(0);
+    });
+
+    it('should start custom intervals on the anchor', () => {
+      const config: RotationConfig = { frequency: 'custom', interval: 10 };
+      const periodInfo = getRotationPeriod(new Date('2025-02-05T12:00:00.000Z'), config, '2025-01-17');
+
+      expect(startOf(periodInfo)).toBe('2025-01-27');
+      expect(periodInfo.endDate.toISOString()).toBe('2025-02-05T23:59:59.999Z');
+      expect(getPeriodsBetween(new Date('2025-01-26T23:00:00.000Z'), new Date('2025-01-27T01:00:00.000Z'), config, '2025-01-17')).toBe(1);
+    });
+
+    it('should start monthly periods on the configured day of the month', () => {
+      const config: RotationConfig = { frequency: 'monthly', schedule: { dayOfMonth: 15, time: '09:00' } };
+      const periodInfo = getRotationPeriod(new Date('2025-02-10T12:00:00.000Z'), config);
+
+      expect(startOf(periodInfo)).toBe('2025-01-15');
+      expect(periodInfo.endDate.toISOString()).toBe('2025-02-14T23:59:59.999Z');
+    });
+
+    it('should follow an rrule', () => {
+      const config: RotationConfig = { frequency: 'rrule', rrule: 'FREQ=MONTHLY;BYDAY=1WE,3WE' };
+
+      expect(startOf(getRotationPeriod(new Date('2025-02-10T12:00:00.000Z'), config))).toBe('2025-02-05');
+      expect(getPeriodsBetween(new Date('2025-01-01T12:00:00.000Z'), new Date('2025-02-19T12:00:00.000Z'), config)).toBe(3);
+      expect(() => getRotationPeriod(new Date(), { frequency: 'rrule' })).toThrow('The rrule frequency requires an rrule');
+    });
+
+    it('should count calendar days for daily rotations', () => {
+      expect(getPeriodsBetween(new Date('2025-01-17T10:00:00.000Z'), new Date('2025-01-18T09:00:00.000Z'), { frequency: 'daily' })).toBe(1);
+    });
+  });
+
+  // The host's own TZ must not matter: GitHub Actions runs in UTC, laptops don't
+  describe.each(['UTC', 'America/Los_Angeles', 'Asia/Tokyo'])('periods in a configured timezone (host TZ %s)', hostTimezone => {
+    const originalTimezone = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = hostTimezone;
+    });
+
+    afterAll(() => {
+      process.env.TZ = originalTimezone;
+    });
+
+    const friday: RotationConfig = { frequency: 'weekly', schedule: { dayOfWeek: 5, time: '09:00' } };
+    const monday: RotationConfig = { frequency: 'weekly' };
+    const daily: RotationConfig = { frequency: 'daily' };
+    const monthly: RotationConfig = { frequency: 'monthly' };
+
+    it.each<[string, string, RotationConfig, string]>([
+      // Just before and after local midnight on the Friday after US DST starts (Mar 9)
+      ['America/New_York', '2025-03-14T03:30:00.000Z', friday, '2025-03-07'],
+      ['America/New_York', '2025-03-14T04:30:00.000Z', friday, '2025-03-14'],
+      // The Friday 9:00 UTC job in the week US DST ends (Nov 2)
+      ['America/New_York', '2025-11-07T09:00:00.000Z', friday, '2025-11-07'],
+      // First Monday of British Summer Time (Mar 30)
+      ['Europe/London', '2025-03-30T23:30:00.000Z', monday, '2025-03-31'],
+      ['Europe/London', '2025-03-30T22:30:00.000Z', monday, '2025-03-24'],
+      // Sydney's DST ends on Apr 6, when that day lasts 25 hours
+      ['Australia/Sydney', '2025-04-06T13:30:00.000Z', daily, '2025-04-06'],
+      ['Australia/Sydney', '2025-04-06T14:30:00.000Z', daily, '2025-04-07'],
+      // Half-hour offsets, and zones already in tomorrow
+      ['Asia/Kolkata', '2025-01-16T18:45:00.000Z', friday, '2025-01-17'],
+      ['Pacific/Auckland', '2024-12-31T11:30:00.000Z', monthly, '2025-01-01'],
+      ['America/Los_Angeles', '2025-01-01T07:30:00.000Z', monthly, '2024-12-01'],
+    ])('%s at %s starts the period on the right local date', (timezone, instant, config, expectedStart) => {
+      const periodInfo = getRotationPeriod(toZonedWallClock(new Date(instant), timezone), config);
+
+      expect(periodInfo.startDate.toISOString().substring(0, 10)).toBe(expectedStart);
+    });
+
+    it('should show both occurrences of a repeated hour as the same wall-clock time', () => {
+      // 1:30 happens twice in New York on Nov 2, 2025: once in EDT, then again in EST
+      expect(toZonedWallClock(new Date('2025-11-02T05:30:00.000Z'), 'America/New_York').toISOString()).toBe('2025-11-02T01:30:00.000Z');
+      expect(toZonedWallClock(new Date('2025-11-02T06:30:00.000Z'), 'America/New_York').toISOString()).toBe('2025-11-02T01:30:00.000Z');
+    });
+
+    it('should reject an unknown timezone', () => {
+      expect(() => toZonedWallClock(new Date(), 'Mars/Olympus_Mons')).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { getUpcomingOwners } from '../src/utils/rotationEngine';
+import { RotationConfig, RotationDefinition, RotationState } from '../src/types';
+
+/**
+ * A rotation registry entry whose files are named after its ID
+ */
+export function createDefinition(id: string, slackChannelId: string): RotationDefinition {
+  return {
+    id,
+    slackChannelId,
+    usersFilePath: `${id}-users.json`,
+    stateFilePath: `${id}-state.json`,
+    historyFilePath: `${id}-history.json`,
+    articlesFilePath: `${id}-articles.json`,
+  };
+}
+
+/**
+ * A weekly rotation that started on Friday 2025-01-17 (or `startDate`), with everyone in it
+ * from the start and the first user current
+ */
+export function createState({
+  userIds = ['U1', 'U2', 'U3'],
+  config = {},
+  startDate = '2025-01-17',
+}: {
+  userIds?: string[];
+  config?: Partial<RotationConfig>;
+  startDate?: string;
+} = {}): RotationState {
+  return {
+    users: userIds.map(id => ({ id, startDate })),
+    currentIndex: 0,
+    lastRotationDate: startDate,
+    startDate,
+    // Copied, so tests can change it without touching a config they share
+    config: structuredClone({ frequency: 'weekly', ...config }),
+  };
+}
+
+/**
+ * Consecutive weeks starting Monday 2025-01-20
+ */
+export function weeks(count: number): Array<{ startDate: Date; endDate: Date }> {
+  return Array.from({ length: count }, (_, i) => ({
+    startDate: new Date(Date.UTC(2025, 0, 20 + i * 7)),
+    endDate: new Date(Date.UTC(2025, 0, 26 + i * 7)),
+  }));
+}
+
+/**
+ * Who owns each of the next `count` weeks
+ */
+export function ownerIds(state: RotationState, count: number): string[] {
+  return getUpcomingOwners(state, weeks(count)).map(user => user.id);
+}
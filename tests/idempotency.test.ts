@@ -0,0 +1,27 @@
+import { getSkipIdempotencyKey, MAX_PROCESSED_KEYS, recordProcessedKey } from '../src/utils/idempotency';
+import { RotationState } from '../src/types';
+
+describe('idempotency', () => {
+  it('should derive the key from the skip button value', () => {
+    const value = JSON.stringify({ action: 'skip', rotationId: 'staff-doc', currentUserId: 'U1', timestamp: 1737100800000 });
+
+    expect(getSkipIdempotencyKey(value)).toBe('skip:U1:1737100800000');
+    expect(getSkipIdempotencyKey(JSON.stringify({ action: 'skip_role', roleId: 'notes', currentUserId: 'U2', timestamp: 1737100800000 }))).toBe(
+      'skip:notes:U2:1737100800000'
+    );
+    expect(getSkipIdempotencyKey(JSON.stringify({ action: 'skip' }))).toBeUndefined();
+    expect(getSkipIdempotencyKey('not json')).toBeUndefined();
+    expect(getSkipIdempotencyKey(undefined)).toBeUndefined();
+  });
+
+  it('should only keep the most recent keys', () => {
+    const state = { processedKeys: [] } as unknown as RotationState;
+
+    for (let i = 0; i < MAX_PROCESSED_KEYS + 5; i++) {
+      recordProcessedKey(state, `key-${i}`);
+    }
+
+    expect(state.processedKeys).toHaveLength(MAX_PROCESSED_KEYS);
+    expect(state.processedKeys?.[0]).toBe('key-5');
+  });
+});
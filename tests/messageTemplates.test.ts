@@ -0,0 +1,47 @@
+import { resolveMessageTemplate, MESSAGE_STYLES } from '../src/utils/messageTemplates';
+import { RotationConfig } from '../src/types';
+
+describe('messageTemplates', () => {
+  describe('resolveMessageTemplate', () => {
+    it('should default to the staff documentation style', () => {
+      const template = resolveMessageTemplate({ frequency: 'weekly' });
+
+      expect(template).toEqual(MESSAGE_STYLES['staff-documentation']);
+    });
+
+    it('should use the preset for a named style', () => {
+      const config: RotationConfig = { frequency: 'weekly', message: { style: 'minimal' } };
+
+      expect(resolveMessageTemplate(config)).toEqual(MESSAGE_STYLES.minimal);
+    });
+
+    it('should apply overrides and emoji to a custom style', () => {
+      const config: RotationConfig = {
+        frequency: 'weekly',
+        message: {
+          style: 'custom',
+          title: 'DevOps Hero of the Week',
+          ownerLabel: "This week's DevOps superhero",
+          responsibilities: ['🚀 Deploy with confidence'],
+          emoji: { header: '🦸‍♀️', owner: '⭐', responsibility: '' },
+        },
+      };
+
+      const template = resolveMessageTemplate(config);
+
+      expect(template.title).toBe('🦸‍♀️ DevOps Hero of the Week');
+      expect(template.ownerLabel).toBe("⭐ This week's DevOps superhero");
+      expect(template.responsibilities).toEqual(['🚀 Deploy with confidence']);
+      expect(template.callToAction).toBe('');
+    });
+
+    it('should not repeat a header emoji the title already starts with', () => {
+      const config: RotationConfig = {
+        frequency: 'weekly',
+        message: { style: 'staff-documentation', emoji: { header: '📄' } },
+      };
+
+      expect(resolveMessageTemplate(config).title).toBe('📄 Staff Documentation Rotation');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { getUpcomingOwners } from '../src/utils/rotationEngine';
+import { getShuffledOrder } from '../src/utils/ordering';
+import { OrderingConfig, RotationState } from '../src/types';
+import { ownerIds, weeks } from './fixtures';
+
+function createState(ordering: OrderingConfig, userIds = ['A', 'B', 'C', 'D']): RotationState {
+  return {
+    users: userIds.map(id => ({ id, startDate: '2024-01-01' })),
+    currentIndex: 0,
+    lastRotationDate: '2025-01-17',
+    startDate: '2025-01-17',
+    config: { frequency: 'weekly', ordering },
+  };
+}
+
+function countTurns(ids: string[]): Record<string, number> {
+  return ids.reduce<Record<string, number>>((counts, id) => ({ ...counts, [id]: (counts[id] || 0) + 1 }), {});
+}
+
+describe('ordering strategies', () => {
+  describe('shuffle', () => {
+    it('should visit everyone once per cycle in a stable order', () => {
+      const state = createState({ strategy: 'shuffle', seed: 'eng-review' });
+      const firstCycle = getShuffledOrder(state, 0);
+
+      // The rest of the current owner's cycle, then each cycle's seeded order
+      expect(ownerIds(state, 10)).toEqual(
+        ['A', ...firstCycle.slice(firstCycle.indexOf('A') + 1), ...getShuffledOrder(state, 1), ...getShuffledOrder(state, 2)].slice(0, 10)
+      );
+      expect(new Set(getShuffledOrder(state, 1)).size).toBe(4);
+      expect(ownerIds(state, 10)).toEqual(ownerIds(createState({ strategy: 'shuffle', seed: 'eng-review' }), 10));
+    });
+
+    it('should never give anyone two turns in a row', () => {
+      const owners = ownerIds(createState({ strategy: 'shuffle' }), 40);
+
+      expect(owners.every((id, i) => i === 0 || id !== owners[i - 1])).toBe(true);
+    });
+
+    it('should order cycles differently for different seeds', () => {
+      const orders = ['a', 'b', 'c', 'd', 'e'].map(seed => getShuffledOrder(createState({ strategy: 'shuffle', seed }), 0).join());
+
+      expect(new Set(orders).size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('least-recent', () => {
+    it('should pick whoever presented longest ago, never-served first', () => {
+      const state = createState({ strategy: 'least-recent' });
+      state.lastServed = { A: '2025-01-13', B: '2025-01-06', C: '2024-12-30' };
+
+      expect(ownerIds(state, 5)).toEqual(['A', 'D', 'C', 'B', 'A']);
+    });
+
+    it('should leave the stored state alone when previewing', () => {
+      const state = createState({ strategy: 'least-recent' }, ['A', 'B']);
+      getUpcomingOwners(state, weeks(2));
+
+      expect(state.lastServed).toBeUndefined();
+    });
+  });
+
+  describe('weighted', () => {
+    it('should give turns in proportion to weight, spread out', () => {
+      const state = createState({ strategy: 'weighted' }, ['A', 'B', 'C']);
+      state.users[0]!.weight = 2;
+
+      const owners = ownerIds(state, 8);
+
+      expect(owners).toEqual(['A', 'B', 'A', 'C', 'A', 'B', 'A', 'C']);
+      expect(countTurns(owners)).toEqual({ A: 4, B: 2, C: 2 });
+    });
+
+    it('should ask new members less often during their first month', () => {
+      const state = createState({ strategy: 'weighted', newMemberWeight: 0 }, ['A', 'B', 'C']);
+      state.users[2]!.startDate = '2025-01-20';
+
+      const owners = ownerIds(state, 9);
+
+      expect(owners.slice(0, 5)).not.toContain('C');
+      expect(owners.slice(5)).toContain('C');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { checkPermission } from '../src/utils/permissions';
+import { createState } from './fixtures';
+
+const userIds = ['U1', 'U2'];
+const admins = ['A1'];
+
+describe('checkPermission', () => {
+  it('should let only the current owner or an admin skip by default', () => {
+    const state = createState({ userIds, config: { admins } });
+
+    expect(checkPermission(state, 'skip', 'U1').allowed).toBe(true);
+    expect(checkPermission(state, 'skip', 'A1').allowed).toBe(true);
+    expect(checkPermission(state, 'skip', 'U2')).toEqual({
+      allowed: false,
+      reason: 'Only the current presenter (<@U1>) or a rotation admin can skip the rotation.',
+    });
+  });
+
+  it('should restrict roster changes to admins by default', () => {
+    const state = createState({ userIds, config: { admins } });
+
+    expect(checkPermission(state, 'editUsers', 'A1').allowed).toBe(true);
+    expect(checkPermission(state, 'editUsers', 'U1').allowed).toBe(false);
+    expect(checkPermission(state, 'swap', 'U1').reason).toBe('Only rotation admins can swap people in the rotation.');
+  });
+
+  it('should apply per-rotation overrides', () => {
+    const state = createState({ userIds, config: { admins, permissions: { skip: 'anyone', set: 'owner' } } });
+
+    expect(checkPermission(state, 'skip', 'U2').allowed).toBe(true);
+    expect(checkPermission(state, 'set', 'U1').allowed).toBe(true);
+  });
+
+  it('should explain how to configure admins when there are none', () => {
+    const state = createState({ userIds });
+
+    expect(checkPermission(state, 'set', 'U1').reason).toContain('none are configured');
+  });
+});
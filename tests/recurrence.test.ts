@@ -0,0 +1,92 @@
+import { getRecurrencePeriod, getRecurrencePeriodsBetween, parseRecurrenceRule } from '../src/utils/recurrence';
+
+describe('recurrence', () => {
+  const startOf = (date: string, rule: string, anchor = '2025-01-01') =>
+    getRecurrencePeriod(new Date(`${date}T12:00:00.000Z`), parseRecurrenceRule(rule), anchor);
+
+  describe('parseRecurrenceRule', () => {
+    it('should parse nth weekdays and an RRULE: prefix', () => {
+      expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;BYDAY=1WE,-1FR')).toEqual({
+        freq: 'MONTHLY',
+        interval: 1,
+        byDay: [{ weekday: 3, ordinal: 1 }, { weekday: 5, ordinal: -1 }],
+        byMonthDay: [],
+      });
+    });
+
+    it.each([
+      ['FREQ=YEARLY', 'RRULE FREQ must be DAILY, WEEKLY or MONTHLY'],
+      ['FREQ=MONTHLY;COUNT=3', 'Unsupported RRULE part(s): COUNT'],
+      ['FREQ=WEEKLY;INTERVAL=0', 'RRULE INTERVAL must be a positive whole number'],
+      ['FREQ=WEEKLY;BYDAY=2WE', 'Invalid RRULE BYDAY value "2WE"'],
+      ['FREQ=MONTHLY;BYMONTHDAY=32', 'Invalid RRULE BYMONTHDAY value "32"'],
+    ])('should reject %s', (rule, message) => {
+      expect(() => parseRecurrenceRule(rule)).toThrow(message);
+    });
+  });
+
+  describe('getRecurrencePeriod', () => {
+    it('should run from each first or third Wednesday to the day before the next', () => {
+      const rule = 'FREQ=MONTHLY;BYDAY=1WE,3WE';
+      const periods = ['2025-01-01', '2025-01-20', '2025-02-05', '2025-02-25'].map(date => startOf(date, rule));
+
+      expect(periods.map(periodInfo => periodInfo.startDate.toISOString().substring(0, 10))).toEqual([
+        '2025-01-01',
+        '2025-01-15',
+        '2025-02-05',
+        '2025-02-19',
+      ]);
+      expect(periods.map(periodInfo => periodInfo.periodNumber)).toEqual([1, 2, 3, 4]);
+      expect(periods[1]!.endDate.toISOString()).toBe('2025-02-04T23:59:59.999Z');
+    });
+
+    it('should split the week at each listed weekday', () => {
+      const rule = 'FREQ=WEEKLY;BYDAY=TU,TH';
+
+      expect(startOf('2025-01-22', rule).startDate.toISOString()).toBe('2025-01-21T00:00:00.000Z');
+      expect(startOf('2025-01-24', rule).startDate.toISOString()).toBe('2025-01-23T00:00:00.000Z');
+      expect(startOf('2025-01-24', rule).endDate.toISOString()).toBe('2025-01-27T23:59:59.999Z');
+    });
+
+    it('should support the last day of the month', () => {
+      const periodInfo = startOf('2025-02-10', 'FREQ=MONTHLY;BYMONTHDAY=-1');
+
+      expect(periodInfo.startDate.toISOString()).toBe('2025-01-31T00:00:00.000Z');
+      expect(periodInfo.endDate.toISOString()).toBe('2025-02-27T23:59:59.999Z');
+    });
+
+    it('should skip months without a fifth Wednesday', () => {
+      const periodInfo = startOf('2025-03-01', 'FREQ=MONTHLY;BYDAY=5WE');
+
+      expect(periodInfo.startDate.toISOString()).toBe('2025-01-29T00:00:00.000Z');
+      expect(periodInfo.endDate.toISOString()).toBe('2025-04-29T23:59:59.999Z');
+    });
+
+    it('should count INTERVAL from the anchor', () => {
+      const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=WE';
+
+      expect(startOf('2025-01-10', rule).startDate.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(startOf('2025-01-10', rule, '2025-01-08').startDate.toISOString()).toBe('2025-01-08T00:00:00.000Z');
+    });
+  });
+
+  describe('getRecurrencePeriodsBetween', () => {
+    it('should count occurrences, including before the anchor', () => {
+      const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2WE');
+
+      expect(getRecurrencePeriodsBetween(new Date('2024-11-20T00:00:00.000Z'), new Date('2025-02-12T00:00:00.000Z'), rule, '2025-01-01')).toBe(3);
+    });
+
+    it('should count daily occurrences over a long span, on either side of the anchor', () => {
+      // Every other day, but only on weekdays: 5 of every 7 two-day steps
+      const rule = parseRecurrenceRule('FREQ=DAILY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR');
+      const between = (start: string, end: string) =>
+        getRecurrencePeriodsBetween(new Date(`${start}T12:00:00.000Z`), new Date(`${end}T12:00:00.000Z`), rule, '2025-01-06');
+
+      // 7000 steps of two days after the Monday anchor, then back to it
+      expect(between('2025-01-06', '2063-05-07')).toBe(5000);
+      expect(between('1986-09-08', '2025-01-06')).toBe(5000);
+      expect(between('2025-01-06', '2025-01-20')).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { getDueReminderOffsets, getMeetingTime, getNotificationTime, parseReminderOffset } from '../src/utils/reminders';
+import { PeriodInfo, ReminderConfig } from '../src/types';
+
+const reminders: ReminderConfig = {
+  meeting: { dayOfWeek: 3, time: '10:00' }, // Wednesday 10:00
+  before: ['2d', '1h'],
+};
+
+// Friday-to-Thursday week starting Friday 2025-01-17
+const period: PeriodInfo = {
+  periodNumber: 3,
+  startDate: new Date('2025-01-17T00:00:00.000Z'),
+  endDate: new Date('2025-01-23T23:59:59.999Z'),
+  year: 2025,
+  type: 'week',
+};
+
+describe('reminders', () => {
+  it('should parse day, hour and minute offsets', () => {
+    expect(parseReminderOffset('2d')).toBe(2 * 24 * 60 * 60 * 1000);
+    expect(parseReminderOffset('1h')).toBe(60 * 60 * 1000);
+    expect(parseReminderOffset('30m')).toBe(30 * 60 * 1000);
+    expect(() => parseReminderOffset('1w')).toThrow('Invalid reminder offset "1w"');
+  });
+
+  it('should place the meeting on the first matching weekday of the period', () => {
+    expect(getMeetingTime(period, reminders.meeting).toISOString()).toBe('2025-01-22T10:00:00.000Z');
+  });
+
+  it('should notify on the scheduled weekday and time, else at 09:00 on the first day', () => {
+    expect(getNotificationTime(period, { dayOfWeek: 1, time: '08:30' }).toISOString()).toBe('2025-01-20T08:30:00.000Z');
+    expect(getNotificationTime(period, undefined).toISOString()).toBe('2025-01-17T09:00:00.000Z');
+  });
+
+  it('should return due reminders closest to the meeting first', () => {
+    const meetingAt = getMeetingTime(period, reminders.meeting);
+    const due = (now: string, sent: string[] = []) =>
+      getDueReminderOffsets(reminders, meetingAt, new Date(now), offset => sent.includes(offset));
+
+    expect(due('2025-01-19T12:00:00.000Z')).toEqual([]);
+    expect(due('2025-01-20T10:00:00.000Z')).toEqual(['2d']);
+    expect(due('2025-01-22T09:15:00.000Z')).toEqual(['1h', '2d']);
+    expect(due('2025-01-22T09:15:00.000Z', ['2d'])).toEqual(['1h']);
+    expect(due('2025-01-22T10:00:00.000Z')).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { getRoleAssignments, getRolesError, skipRoleUser } from '../src/utils/roles';
+import { PeriodInfo, RoleConfig, RotationState } from '../src/types';
+
+// The week of Monday 2025-01-27, two periods after the rotation started
+const period: PeriodInfo = {
+  periodNumber: 5,
+  startDate: new Date(Date.UTC(2025, 0, 27)),
+  endDate: new Date(Date.UTC(2025, 1, 2, 23, 59, 59, 999)),
+  year: 2025,
+  type: 'week',
+};
+
+function createState(roles: RoleConfig[]): RotationState {
+  return {
+    users: ['U1', 'U2', 'U3', 'U4'].map(id => ({ id, startDate: '2025-01-13' })),
+    currentIndex: 0,
+    lastRotationDate: '2025-01-13',
+    startDate: '2025-01-13',
+    config: { frequency: 'weekly', schedule: { dayOfWeek: 1 }, roles },
+  };
+}
+
+function roleUserIds(state: RotationState, presenterId = 'U1'): Record<string, string> {
+  const presenter = state.users.find(user => user.id === presenterId)!;
+  return Object.fromEntries(getRoleAssignments(state, presenter, period).map(({ role, user }) => [role.id, user.id]));
+}
+
+describe('roles', () => {
+  const emcee = { id: 'emcee', name: 'Emcee' };
+
+  it('should give offset roles to whoever follows the presenter', () => {
+    const state = createState([emcee, { id: 'notes', name: 'Note-taker' }, { id: 'timer', name: 'Timekeeper', offset: 3 }]);
+
+    expect(roleUserIds(state)).toEqual({ emcee: 'U1', notes: 'U2', timer: 'U4' });
+    expect(roleUserIds(state, 'U4')).toEqual({ emcee: 'U4', notes: 'U1', timer: 'U3' });
+  });
+
+  it('should rotate queue roles once per period', () => {
+    const state = createState([emcee, { id: 'notes', name: 'Note-taker', users: ['N1', 'N2', 'N3'] }]);
+
+    // Two periods since 2025-01-13
+    expect(roleUserIds(state)).toEqual({ emcee: 'U1', notes: 'N3' });
+  });
+
+  it('should not double up, and pass over users who are out of office', () => {
+    const state = createState([emcee, { id: 'notes', name: 'Note-taker', users: ['U2', 'U1', 'U3'] }]);
+    state.users[2]!.unavailable = [{ start: '2025-01-27', end: '2025-01-31' }];
+
+    // U3's turn, but they are away and U1 presents
+    expect(roleUserIds(state)).toEqual({ emcee: 'U1', notes: 'U2' });
+  });
+
+  it('should have no assignments without roles', () => {
+    expect(getRoleAssignments(createState([]), { id: 'U1', startDate: '2025-01-13' }, period)).toEqual([]);
+  });
+
+  it('should hand a skipped role to the next person for the rest of the period', () => {
+    const state = createState([emcee, { id: 'notes', name: 'Note-taker' }]);
+    const presenter = state.users[0]!;
+
+    const skip = skipRoleUser(state, 'notes', presenter, period);
+
+    expect(skip).toMatchObject({ skippedUser: { id: 'U2' }, newUser: { id: 'U3' }, role: { id: 'notes' } });
+    expect(state.roleOverrides).toEqual({ notes: { period: '2025-01-27', userId: 'U3' } });
+    expect(roleUserIds(state)).toEqual({ emcee: 'U1', notes: 'U3' });
+    expect(() => skipRoleUser(state, 'emcee', presenter, period)).toThrow('Emcee is the presenter role; skip the rotation instead');
+    expect(() => skipRoleUser(state, 'nope', presenter, period)).toThrow('Unknown role "nope"');
+  });
+
+  it('should explain invalid roles', () => {
+    expect(getRolesError([emcee, { id: 'notes', name: 'Note-taker', offset: 1 }])).toBeUndefined();
+    expect(getRolesError([{ ...emcee, offset: 1 }])).toBe("The first role (emcee) is the presenter, so it can't have an offset or users");
+    expect(getRolesError([emcee, { id: 'emcee', name: 'Again' }])).toBe('Duplicate role id: emcee');
+    expect(getRolesError([emcee, { id: 'notes', name: 'Note-taker', users: [] }])).toBe(
+      'The users of role notes must be a non-empty array of Slack user IDs'
+    );
+  });
+});
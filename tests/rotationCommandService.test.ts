@@ -0,0 +1,146 @@
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { RotationCommandService } from '../src/services/RotationCommandService';
+import { RotationRegistry } from '../src/services/RotationRegistry';
+import { createDefinition, createState } from './fixtures';
+
+describe('RotationCommandService', () => {
+  let registry: RotationRegistry;
+  let commands: RotationCommandService;
+
+  const run = (text: string, channelId = 'C1') => commands.execute({ text, userId: 'U9', channelId });
+  const store = (id = 'staff-doc') => registry.getContext(id).store;
+
+  beforeEach(() => {
+    registry = new RotationRegistry(
+      [createDefinition('staff-doc', 'C1'), createDefinition('eng-review', 'C2')],
+      'staff-doc',
+      {
+        botToken: 'xoxb-test',
+        timezone: 'UTC',
+        createStore: () => new MemoryStorageService(createState({ config: { admins: ['U9'] } })),
+      }
+    );
+    commands = new RotationCommandService(registry);
+  });
+
+  it('should show usage for an empty or unknown command', async () => {
+    expect((await run('')).text).toContain('/rotation [rotation-id] <command>');
+    expect((await run('dance')).text).toContain('Unknown command "dance"');
+  });
+
+  it('should report the current presenter privately', async () => {
+    const response = await run('who');
+
+    expect(response).toEqual({ responseType: 'ephemeral', text: '📋 <@U1> is presenting this period.' });
+  });
+
+  it('should swap two users from escaped mentions', async () => {
+    const response = await run('swap <@U1|jane> <@U2|joe>');
+
+    expect(response.responseType).toBe('in_channel');
+    expect((await store().loadRotationState()).users.map(user => user.id)).toEqual(['U2', 'U1', 'U3']);
+  });
+
+  it('should add, remove and mark users away', async () => {
+    await run('add <@U4>');
+    await run('remove <@U2>');
+    await run('away <@U3> 2025-07-01 2025-07-14');
+
+    const { users } = await store().loadRotationState();
+    expect(users.map(user => user.id)).toEqual(['U1', 'U3', 'U4']);
+    expect(users[1]!.unavailable).toEqual([{ start: '2025-07-01', end: '2025-07-14' }]);
+    expect(await store().getHistory()).toEqual([
+      expect.objectContaining({ action: 'remove', assignedUserId: 'U1', presenterId: 'U1', actorId: 'U9', removedUserId: 'U2' }),
+    ]);
+  });
+
+  it('should record who presents after removing the presenter', async () => {
+    await run('remove <@U1>');
+
+    expect(await store().getHistory()).toEqual([
+      expect.objectContaining({ action: 'remove', assignedUserId: 'U1', presenterId: 'U2', actorId: 'U9', removedUserId: 'U1' }),
+    ]);
+  });
+
+  it('should add users from a start date and schedule departures', async () => {
+    expect((await run('add <@U4> 2025-09-01')).text).toBe('➕ <@U9> added <@U4> to the rotation, presenting from 2025-09-01.');
+    expect((await run('remove <@U2> 2025-08-29')).text).toBe('➖ <@U9> scheduled <@U2> to leave the rotation after 2025-08-29.');
+    expect((await run('remove <@U4> 2025-08-01')).text).toBe("❌ 2025-08-01 is before <@U4>'s start date 2025-09-01");
+
+    const { users } = await store().loadRotationState();
+    expect(users.map(({ id, startDate, endDate }) => ({ id, startDate, endDate }))).toEqual([
+      { id: 'U1', startDate: '2025-01-17', endDate: undefined },
+      { id: 'U2', startDate: '2025-01-17', endDate: '2025-08-29' },
+      { id: 'U3', startDate: '2025-01-17', endDate: undefined },
+      { id: 'U4', startDate: '2025-09-01', endDate: undefined },
+    ]);
+  });
+
+  it('should target the rotation named in the command, or the channel\'s rotation', async () => {
+    await run('eng-review set <@U3>');
+    await run('set <@U2>', 'C2');
+
+    expect((await store('eng-review').getCurrentUser()).id).toBe('U2');
+    expect((await store('staff-doc').getCurrentUser()).id).toBe('U1');
+  });
+
+  it('should deny changes to non-admins but let anyone mark themselves away', async () => {
+    const asMember = (text: string) => commands.execute({ text, userId: 'U2', channelId: 'C1' });
+
+    expect(await asMember('remove <@U3>')).toEqual({
+      responseType: 'ephemeral',
+      text: '🚫 Only rotation admins can change who is in the rotation.',
+    });
+    expect((await asMember('away <@U2> 2025-07-01 2025-07-14')).responseType).toBe('in_channel');
+    expect((await asMember('away <@U3> 2025-07-01 2025-07-14')).text).toContain('🚫');
+  });
+
+  it('should label the schedule with the rotation\'s message template and period length', async () => {
+    await store().mutateRotationState(state => {
+      state.config.frequency = 'monthly';
+      state.config.message = { style: 'professional' };
+      state.config.roles = [{ id: 'emcee', name: 'Emcee' }, { id: 'notes', name: 'Note-taker' }];
+    });
+
+    const { text } = await run('schedule 2');
+
+    expect(text).toMatch(/^📋 Rotation Assignment — Upcoming Schedule:\nMonth \d+ \(.+\): Emcee: U\d, Note-taker: U\d\nMonth \d+ /);
+  });
+
+  it('should search the article archive', async () => {
+    await store().mutateRotationState(state => {
+      state.config.articles = true;
+    });
+    await registry.getContext('staff-doc').rotationService.submitArticle('U1', {
+      title: 'Postgres replication internals',
+      url: 'https://example.com/replication',
+    });
+
+    expect((await run('articles replication')).text).toContain('Postgres replication internals (https://example.com/replication)');
+    expect((await run('articles kafka')).text).toBe('📚 Articles matching "kafka":\nNone');
+
+    const query = 'distributed consensus '.repeat(10);
+    const [header, section] = (await run(`articles ${query}`)).blocks!;
+    expect(header.text.text).toBe('📚 Article Archive');
+    expect(section.text.text).toContain(query.trim());
+  });
+
+  it('should cancel meetings on blackout dates', async () => {
+    const response = await run('blackout 2025-11-26 2025-11-28 Thanksgiving week');
+    await run('blackout 2025-12-25');
+
+    expect(response.text).toBe('🚫 <@U9> cancelled the meeting 2025-11-26 – 2025-11-28 (Thanksgiving week); whoever is due keeps their turn for the next one.');
+    expect((await store().loadRotationState()).config.blackouts).toEqual([
+      { start: '2025-11-26', end: '2025-11-28', reason: 'Thanksgiving week' },
+      { start: '2025-12-25', end: '2025-12-25' },
+    ]);
+    expect((await commands.execute({ text: 'blackout 2026-01-01', userId: 'U1', channelId: 'C1' })).text).toContain('🚫');
+    expect((await store().loadRotationState()).config.blackouts).toHaveLength(2);
+  });
+
+  it('should reply with the error for invalid input', async () => {
+    expect((await run('set @jane')).text).toContain('Couldn\'t read "@jane" as a user');
+    expect((await run('away <@U1> 2025-07-14 2025-07-01')).text).toBe('❌ 2025-07-14 is after 2025-07-01');
+    expect((await run('remove <@U7>')).text).toBe('❌ User with ID U7 not found in rotation');
+  });
+});
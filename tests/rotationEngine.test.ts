@@ -0,0 +1,188 @@
+import {
+  advanceAssignment,
+  assignCurrentOwner,
+  getCurrentOwner,
+  getUpcomingOwners,
+  insertUser,
+  isUserActive,
+  isUserAvailable,
+  passOverUnavailableOwner,
+  skipCurrentOwner,
+} from '../src/utils/rotationEngine';
+import { createState, ownerIds, weeks } from './fixtures';
+
+const userIds = ['A', 'B', 'C'];
+
+describe('rotationEngine', () => {
+  it('should drop the skipped turn in advance mode', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'advance');
+
+    expect(ownerIds(state, 4)).toEqual(['B', 'C', 'A', 'B']);
+  });
+
+  it('should give the skipped user a make-up turn right after in defer mode', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'defer');
+
+    expect(ownerIds(state, 5)).toEqual(['B', 'A', 'C', 'A', 'B']);
+  });
+
+  it('should trade places with the next user in swap mode', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'swap');
+
+    expect(state.users.map(user => user.id)).toEqual(['B', 'A', 'C']);
+    expect(ownerIds(state, 4)).toEqual(['B', 'A', 'C', 'B']);
+  });
+
+  it('should defer again when a make-up turn is skipped', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'defer');
+    advanceAssignment(state);
+    expect(getCurrentOwner(state).id).toBe('A');
+
+    skipCurrentOwner(state, 'swap');
+
+    expect(ownerIds(state, 4)).toEqual(['C', 'A', 'A', 'B']);
+  });
+
+  it('should settle a deferred turn when the user is assigned directly', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'defer');
+    assignCurrentOwner(state, 'A');
+
+    expect(state.deferredUserIds).toEqual([]);
+    expect(ownerIds(state, 3)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should ignore deferred users who left the rotation', () => {
+    const state = createState({ userIds });
+    skipCurrentOwner(state, 'defer');
+    state.users = state.users.filter(user => user.id !== 'A');
+    state.currentIndex = 0;
+
+    expect(ownerIds(state, 3)).toEqual(['B', 'C', 'B']);
+  });
+
+  it('should refuse to skip the only user', () => {
+    const state = createState({ userIds });
+    state.users = [state.users[0]!];
+
+    expect(() => skipCurrentOwner(state, 'defer')).toThrow('fewer than two users');
+  });
+
+  describe('unavailability', () => {
+    it('should treat any overlap with the period as unavailable', () => {
+      const [week] = weeks(1);
+      const user = { id: 'A', startDate: '2025-01-17', unavailable: [{ start: '2025-01-24', end: '2025-01-31' }] };
+
+      expect(isUserAvailable(user, week!)).toBe(false);
+      expect(isUserAvailable({ ...user, unavailable: [{ start: '2025-01-27', end: '2025-01-31' }] }, week!)).toBe(true);
+    });
+
+    it('should pass over an out-of-office user and make up their turn when they return', () => {
+      const state = createState({ userIds });
+      // B is out during the second week
+      state.users[1]!.unavailable = [{ start: '2025-01-27', end: '2025-02-02' }];
+
+      expect(ownerIds(state, 5)).toEqual(['A', 'C', 'B', 'A', 'B']);
+    });
+
+    it('should hand the current period over when the owner is out of office', () => {
+      const state = createState({ userIds });
+      state.users[0]!.unavailable = [{ start: '2025-01-20', end: '2025-01-26' }];
+      const [week] = weeks(1);
+
+      const passedOver = passOverUnavailableOwner(state, week!);
+
+      expect(passedOver?.id).toBe('A');
+      expect(getCurrentOwner(state).id).toBe('B');
+      expect(state.deferredUserIds).toEqual(['A']);
+    });
+
+    it('should only owe one make-up turn for a long absence', () => {
+      const state = createState({ userIds });
+      state.users[0]!.unavailable = [{ start: '2025-01-20', end: '2025-02-16' }];
+
+      expect(ownerIds(state, 6)).toEqual(['B', 'C', 'B', 'C', 'A', 'A']);
+    });
+
+    it('should keep the owner when nobody is available', () => {
+      const state = createState({ userIds });
+      state.users.forEach(user => {
+        user.unavailable = [{ start: '2025-01-20', end: '2025-01-26' }];
+      });
+
+      expect(passOverUnavailableOwner(state, weeks(1)[0]!)).toBeUndefined();
+      expect(getCurrentOwner(state).id).toBe('A');
+    });
+  });
+
+  describe('start and end dates', () => {
+    it('should only count periods entirely within the user\'s dates', () => {
+      const [first, second] = weeks(2);
+      const user = { id: 'D', startDate: '2025-01-22', endDate: '2025-02-01' };
+
+      expect(isUserActive(user, first!)).toBe(false);
+      expect(isUserActive(user, second!)).toBe(false);
+      expect(isUserActive({ ...user, endDate: '2025-02-02' }, second!)).toBe(true);
+    });
+
+    it('should pass over users before they start and after they leave, without make-up turns', () => {
+      const state = createState({ userIds });
+      state.users[1]!.startDate = '2025-02-03';
+      state.users[2]!.endDate = '2025-01-26';
+
+      expect(ownerIds(state, 5)).toEqual(['A', 'A', 'B', 'A', 'B']);
+
+      advanceAssignment(state, weeks(2)[1]!);
+      expect(getCurrentOwner(state).id).toBe('A');
+      expect(state.deferredUserIds).toBeUndefined();
+    });
+
+    it('should hand the period over when the owner has left', () => {
+      const state = createState({ userIds });
+      state.users[0]!.endDate = '2025-01-19';
+
+      expect(passOverUnavailableOwner(state, weeks(1)[0]!)?.id).toBe('A');
+      expect(getCurrentOwner(state).id).toBe('B');
+      expect(state.deferredUserIds).toBeUndefined();
+    });
+
+    it('should add newcomers at the end of the list or after everyone\'s next turn', () => {
+      const endOfQueue = createState({ userIds });
+      endOfQueue.currentIndex = 1;
+      insertUser(endOfQueue, { id: 'D', startDate: '2025-01-17' });
+
+      const nextCycle = createState({ userIds });
+      nextCycle.currentIndex = 1;
+      nextCycle.config.newcomerPlacement = 'next-cycle';
+      insertUser(nextCycle, { id: 'D', startDate: '2025-01-17' });
+
+      expect(ownerIds(endOfQueue, 5)).toEqual(['B', 'C', 'D', 'A', 'B']);
+      expect(ownerIds(nextCycle, 5)).toEqual(['B', 'C', 'A', 'D', 'B']);
+      expect(() => insertUser(nextCycle, { id: 'A', startDate: '2025-01-17' })).toThrow('User with ID A already exists in rotation');
+    });
+  });
+
+  describe('cancelled periods', () => {
+    it('should not advance into a period without a meeting', () => {
+      const owners = getUpcomingOwners(createState({ userIds }), weeks(4), { cancelled: [false, true, false, false] });
+
+      // The cancelled week shows who presents at the next meeting
+      expect(owners.map(user => user.id)).toEqual(['A', 'B', 'B', 'C']);
+    });
+
+    it('should keep the turn of someone assigned during a cancelled period', () => {
+      const cancelled = [true, false, false];
+
+      expect(getUpcomingOwners(createState({ userIds }), weeks(3), { cancelled }).map(user => user.id)).toEqual(['B', 'B', 'C']);
+      expect(getUpcomingOwners(createState({ userIds }), weeks(3), { cancelled, holdCurrentOwner: true }).map(user => user.id)).toEqual([
+        'A',
+        'A',
+        'B',
+      ]);
+    });
+  });
+});
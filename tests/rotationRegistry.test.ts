@@ -0,0 +1,37 @@
+import { RotationRegistry } from '../src/services/RotationRegistry';
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { createDefinition, createState } from './fixtures';
+
+describe('RotationRegistry', () => {
+  const registry = new RotationRegistry(
+    [createDefinition('staff-doc', 'C1'), createDefinition('eng-review', 'C2'), createDefinition('on-call', 'C2')],
+    'staff-doc',
+    {
+      botToken: 'xoxb-test',
+      timezone: 'UTC',
+      createStore: definition => new MemoryStorageService(createState({ userIds: [`${definition.id}-owner`] })),
+    }
+  );
+
+  it('should resolve the default rotation when no ID is given', () => {
+    expect(registry.getDefinition().id).toBe('staff-doc');
+  });
+
+  it('should reject unknown rotation IDs', () => {
+    expect(() => registry.getDefinition('missing')).toThrow('Unknown rotation "missing"');
+  });
+
+  it('should only match a channel owned by a single rotation', () => {
+    expect(registry.findRotationByChannel('C1')?.id).toBe('staff-doc');
+    expect(registry.findRotationByChannel('C2')).toBeUndefined();
+  });
+
+  it('should give each rotation its own store', async () => {
+    const staffDoc = registry.getContext('staff-doc');
+    const engReview = registry.getContext('eng-review');
+
+    expect(registry.getContext('staff-doc')).toBe(staffDoc);
+    expect((await staffDoc.rotationService.getCurrentForumOwnerReadOnly()).id).toBe('staff-doc-owner');
+    expect((await engReview.rotationService.getCurrentForumOwnerReadOnly()).id).toBe('eng-review-owner');
+  });
+});
@@ -0,0 +1,69 @@
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { RotationRegistry } from '../src/services/RotationRegistry';
+import { RotationScheduler } from '../src/services/RotationScheduler';
+import { RotationState } from '../src/types';
+import { createDefinition, createState } from './fixtures';
+
+// A store whose writes start failing on demand, e.g. right after Slack accepted a message
+class FlakyStore extends MemoryStorageService {
+  failWrites = false;
+
+  async compareAndSetRotationState(expected: RotationState, next: RotationState): Promise<boolean> {
+    if (this.failWrites) {
+      throw new Error('KV is down');
+    }
+    return super.compareAndSetRotationState(expected, next);
+  }
+}
+
+describe('RotationScheduler', () => {
+  let store: FlakyStore;
+  let registry: RotationRegistry;
+  let posts: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+    jest.setSystemTime(new Date('2025-01-17T10:00:00.000Z'));
+
+    store = new FlakyStore(createState({ userIds: ['U1', 'U2'], config: { schedule: { dayOfWeek: 5, time: '09:00' } } }));
+    registry = new RotationRegistry(
+      [createDefinition('staff-doc', 'C1')],
+      'staff-doc',
+      { botToken: 'xoxb-test', timezone: 'UTC', createStore: () => store }
+    );
+    posts = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function stubSlack(post: () => { success: boolean; messageTs?: string; error?: string }): void {
+    registry.getContext().slackService.sendRotationNotification = async () => {
+      posts++;
+      return post();
+    };
+  }
+
+  it('should give the claim back when Slack rejects the post', async () => {
+    const scheduler = new RotationScheduler(registry);
+    stubSlack(() => ({ success: false, error: 'channel_not_found' }));
+
+    await expect(scheduler.sendNotificationOnce(registry.getContext())).rejects.toThrow('Failed to send notification: channel_not_found');
+    expect((await store.loadRotationState()).notificationClaim).toBeUndefined();
+  });
+
+  it('should keep the claim when the post succeeded but recording it failed', async () => {
+    const scheduler = new RotationScheduler(registry);
+    stubSlack(() => {
+      store.failWrites = true;
+      return { success: true, messageTs: '1737108000.000100' };
+    });
+
+    await expect(scheduler.sendNotificationOnce(registry.getContext())).rejects.toThrow("couldn't record it, so it stays claimed");
+
+    store.failWrites = false;
+    expect(await scheduler.sendNotificationOnce(registry.getContext())).toBeUndefined();
+    expect(posts).toBe(1);
+  });
+});
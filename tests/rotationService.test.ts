@@ -0,0 +1,507 @@
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { RotationService } from '../src/services/RotationService';
+import { RotationState } from '../src/types';
+import { createState } from './fixtures';
+
+const config = { schedule: { dayOfWeek: 5, time: '09:00' } };
+
+describe('RotationService', () => {
+  let store: MemoryStorageService;
+  let rotationService: RotationService;
+
+  beforeEach(() => {
+    store = new MemoryStorageService(createState({ config }));
+    rotationService = new RotationService(store, 'UTC');
+  });
+
+  describe('history', () => {
+    it('should record who skipped and who presents instead', async () => {
+      const newUser = await rotationService.advanceToNextUser('U9');
+      const [entry] = await store.getHistory();
+
+      expect(newUser.id).toBe('U2');
+      expect(entry).toMatchObject({
+        action: 'skip',
+        assignedUserId: 'U1',
+        presenterId: 'U2',
+        actorId: 'U9',
+      });
+      expect(entry?.period).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should record manual overrides', async () => {
+      await rotationService.setCurrentUser('U3', 'U9');
+
+      expect(await store.getHistory()).toEqual([
+        expect.objectContaining({
+          action: 'set',
+          assignedUserId: 'U1',
+          presenterId: 'U3',
+          actorId: 'U9',
+        }),
+      ]);
+    });
+
+    it('should summarize the final presenter per period, keeping the original assignee', async () => {
+      const record = (period: string, assignedUserId: string, presenterId: string) =>
+        store.appendHistory({
+          timestamp: `${period}T09:00:00.000Z`,
+          period,
+          action: assignedUserId === presenterId ? 'advance' : 'skip',
+          assignedUserId,
+          presenterId,
+        });
+
+      await record('2025-01-17', 'U1', 'U1');
+      await record('2025-01-17', 'U1', 'U2');
+      await record('2025-01-17', 'U2', 'U3');
+      await record('2025-01-24', 'U1', 'U1');
+
+      expect(await rotationService.getPresenterSummary()).toEqual([
+        { period: '2025-01-17', assignedUserId: 'U1', presenterId: 'U3' },
+        { period: '2025-01-24', assignedUserId: 'U1', presenterId: 'U1' },
+      ]);
+      expect(await rotationService.getPresenterSummary({ since: '2025-01-20' })).toHaveLength(1);
+    });
+  });
+
+  describe('advancing', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should advance once per period when callers race', async () => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2025-01-24T12:00:00.000Z'));
+
+      const owners = await Promise.all([rotationService.getCurrentForumOwner(), rotationService.getCurrentForumOwner()]);
+
+      expect(owners.map(owner => owner.id)).toEqual(['U2', 'U2']);
+      expect((await store.loadRotationState()).currentIndex).toBe(1);
+      expect((await store.getHistory()).filter(entry => entry.action === 'advance')).toHaveLength(1);
+    });
+  });
+
+  describe('articles', () => {
+    const submission = { title: 'Out of the Tar Pit', url: 'https://example.com/tar-pit', summary: '  ' };
+
+    beforeEach(async () => {
+      await store.mutateRotationState(state => {
+        state.config.articles = true;
+      });
+    });
+
+    it('should refuse articles unless the rotation collects them', async () => {
+      await store.mutateRotationState(state => {
+        delete state.config.articles;
+      });
+
+      await expect(rotationService.submitArticle('U1', submission)).rejects.toThrow('This rotation doesn\'t collect articles');
+      expect(await store.getArticles()).toEqual([]);
+    });
+
+    it('should let the presenter or an admin submit the period\'s article', async () => {
+      await expect(rotationService.submitArticle('U2', submission)).rejects.toThrow(
+        'Only <@U1> or a rotation admin can submit this period\'s article'
+      );
+
+      const article = await rotationService.submitArticle('U1', submission);
+      expect(article).toMatchObject({ userId: 'U1', submittedBy: 'U1', title: 'Out of the Tar Pit' });
+      expect(article).not.toHaveProperty('summary');
+      expect((await rotationService.getNotificationStatus()).article).toEqual(article);
+    });
+
+    it('should not show the previous presenter\'s article after a skip', async () => {
+      await rotationService.submitArticle('U1', submission);
+      await rotationService.skipCurrentUser('U1');
+
+      expect(await rotationService.getNotificationStatus()).toEqual({ confirmed: false, article: undefined });
+      expect(await rotationService.searchArticles('tar pit')).toHaveLength(1);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('should apply a replayed skip only once', async () => {
+      const first = await rotationService.skipCurrentUser('U1', 'skip:U1:1737100800000');
+      const replay = await rotationService.skipCurrentUser('U1', 'skip:U1:1737100800000');
+
+      expect(first).toMatchObject({ duplicate: false, newUser: { id: 'U2' } });
+      expect(replay).toMatchObject({ duplicate: true, newUser: { id: 'U2' } });
+      expect(await store.getHistory()).toHaveLength(1);
+    });
+  });
+
+  describe('roles', () => {
+    beforeEach(() => {
+      const state = createState({ config });
+      state.config.roles = [{ id: 'emcee', name: 'Emcee' }, { id: 'notes', name: 'Note-taker' }];
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+    });
+
+    it('should list every role in the schedule and the rotation message status', async () => {
+      const schedule = await rotationService.getUpcomingRotation(2);
+
+      expect(schedule.map(item => item.roles!.map(({ user }) => user.id))).toEqual([['U1', 'U2'], ['U2', 'U3']]);
+      expect((await rotationService.getNotificationStatus()).roles!.map(({ role }) => role.name)).toEqual(['Emcee', 'Note-taker']);
+    });
+
+    it('should skip a role without changing the presenter or the presenter summary', async () => {
+      const skip = await rotationService.skipRole('notes', 'U2', 'skip:notes:U2:1737100800000');
+      const replay = await rotationService.skipRole('notes', 'U2', 'skip:notes:U2:1737100800000');
+
+      expect(skip).toMatchObject({ duplicate: false, skippedUser: { id: 'U2' }, newUser: { id: 'U3' }, role: { id: 'notes' } });
+      expect(replay).toMatchObject({ duplicate: true, newUser: { id: 'U3' } });
+      expect((await rotationService.getCurrentRoles()).map(({ user }) => user.id)).toEqual(['U1', 'U3']);
+      expect(await store.getHistory()).toEqual([expect.objectContaining({ action: 'skip', role: 'notes', presenterId: 'U3' })]);
+      expect(await rotationService.getPresenterSummary()).toEqual([]);
+    });
+
+    it('should only let the role holder or an admin skip it', async () => {
+      expect((await rotationService.checkPermission('skip', 'U2', 'notes')).allowed).toBe(true);
+      expect((await rotationService.checkPermission('skip', 'U1', 'notes')).reason).toBe(
+        'Only the current note-taker (<@U2>) or a rotation admin can skip the rotation.'
+      );
+    });
+  });
+
+  describe('upcoming periods', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should list every month from a month-end date', async () => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2025-01-31T12:00:00.000Z'));
+      const state = createState({ config });
+      state.config = { frequency: 'monthly' };
+      rotationService = new RotationService(new MemoryStorageService(state), 'UTC');
+
+      const schedule = await rotationService.getUpcomingRotation(3);
+
+      expect(schedule.map(item => item.periodInfo.startDate.toISOString().substring(0, 10))).toEqual([
+        '2025-01-01',
+        '2025-02-01',
+        '2025-03-01',
+      ]);
+    });
+
+    it('should give each bi-weekly period across New Year its own presenter', async () => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2026-12-20T12:00:00.000Z'));
+      const state = createState({ config });
+      state.startDate = '2026-12-14';
+      state.lastRotationDate = '2026-12-14';
+      state.config = { frequency: 'bi-weekly' };
+      rotationService = new RotationService(new MemoryStorageService(state), 'UTC');
+
+      const schedule = await rotationService.getUpcomingRotation(3);
+
+      expect(schedule.map(item => item.periodInfo.startDate.toISOString().substring(0, 10))).toEqual([
+        '2026-12-14',
+        '2026-12-28',
+        '2027-01-11',
+      ]);
+      expect(schedule.map(item => item.user.id)).toEqual(['U1', 'U2', 'U3']);
+    });
+
+    it('should order least-recent rotations by who presented longest ago in history', async () => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2025-01-20T12:00:00.000Z'));
+      const state = createState({ config });
+      state.config.ordering = { strategy: 'least-recent' };
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      for (const [period, userId] of [['2024-12-27', 'U3'], ['2025-01-03', 'U2'], ['2025-01-10', 'U1']]) {
+        await store.appendHistory({ timestamp: `${period}T09:00:00.000Z`, period: period!, action: 'advance', assignedUserId: userId!, presenterId: userId! });
+      }
+
+      expect((await rotationService.getUpcomingRotation(4)).map(item => item.user.id)).toEqual(['U1', 'U3', 'U2', 'U1']);
+    });
+
+    it('should step through rrule sessions', async () => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2025-01-20T12:00:00.000Z'));
+      const state = createState({ config });
+      state.startDate = '2025-01-01';
+      state.lastRotationDate = '2025-01-15';
+      state.config = { frequency: 'rrule', rrule: 'FREQ=MONTHLY;BYDAY=1WE,3WE' };
+      rotationService = new RotationService(new MemoryStorageService(state), 'UTC');
+
+      const schedule = await rotationService.getUpcomingRotation(3);
+
+      expect(schedule.map(item => item.periodInfo.startDate.toISOString().substring(0, 10))).toEqual([
+        '2025-01-15',
+        '2025-02-05',
+        '2025-02-19',
+      ]);
+      expect(schedule.map(item => item.user.id)).toEqual(['U1', 'U2', 'U3']);
+    });
+  });
+
+  describe('blackouts', () => {
+    // Friday-to-Thursday periods; the Wednesday meeting of Thanksgiving week is cancelled
+    const thanksgiving = { start: '2025-11-24', end: '2025-11-28', reason: 'Thanksgiving' };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      jest.setSystemTime(new Date('2025-11-22T12:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function createBlackoutState(lastRotationDate: string, currentIndex: number): RotationState {
+      const state = createState({ config });
+      state.lastRotationDate = lastRotationDate;
+      state.currentIndex = currentIndex;
+      state.config.reminders = { meeting: { dayOfWeek: 3, time: '10:00' }, before: ['1d'] };
+      state.config.blackouts = [thanksgiving];
+      return state;
+    }
+
+    it('should hold the next presenter over a week without a meeting', async () => {
+      store = new MemoryStorageService(createBlackoutState('2025-11-14', 0));
+      rotationService = new RotationService(store, 'UTC');
+
+      const schedule = await rotationService.getUpcomingRotation(3);
+      expect(schedule.map(item => [item.user.id, item.blackout?.reason])).toEqual([
+        ['U2', 'Thanksgiving'],
+        ['U2', undefined],
+        ['U3', undefined],
+      ]);
+      expect(await rotationService.getCurrentBlackout()).toEqual(thanksgiving);
+
+      // No advance (and no reminder) during the blackout, then U2 presents at the next meeting
+      expect((await rotationService.getCurrentForumOwner()).id).toBe('U1');
+      expect(await rotationService.claimDueReminder()).toBeUndefined();
+      jest.setSystemTime(new Date('2025-11-29T12:00:00.000Z'));
+      expect((await rotationService.getCurrentForumOwner()).id).toBe('U2');
+    });
+
+    it('should keep the turn of someone assigned during the blackout', async () => {
+      store = new MemoryStorageService(createBlackoutState('2025-11-21', 1));
+      rotationService = new RotationService(store, 'UTC');
+
+      expect((await rotationService.getUpcomingRotation(3)).map(item => item.user.id)).toEqual(['U2', 'U2', 'U3']);
+
+      jest.setSystemTime(new Date('2025-11-29T12:00:00.000Z'));
+      expect((await rotationService.getCurrentForumOwner()).id).toBe('U2');
+    });
+
+    it('should add new blackout dates only once', async () => {
+      expect(await rotationService.addBlackouts([thanksgiving, { start: '2025-12-25', end: '2025-12-25' }])).toBe(2);
+      expect(await rotationService.addBlackouts([thanksgiving])).toBe(0);
+      await expect(rotationService.addBlackouts([{ start: '2025-12-26', end: '2025-12-24' }])).rejects.toThrow(
+        '2025-12-26 is after 2025-12-24'
+      );
+    });
+  });
+
+  describe('skip modes', () => {
+    it('should keep the skipped user\'s turn in defer mode', async () => {
+      const state = createState({ config });
+      state.config.skipMode = 'defer';
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      const skip = await rotationService.skipCurrentUser('U1');
+      const upcoming = await rotationService.getUpcomingRotation(4);
+
+      expect(skip).toMatchObject({ mode: 'defer', skippedUser: { id: 'U1' }, newUser: { id: 'U2' } });
+      expect(upcoming.map(entry => entry.user.id)).toEqual(['U2', 'U1', 'U3', 'U1']);
+    });
+
+    it('should drop the skipped turn by default', async () => {
+      await rotationService.skipCurrentUser('U1');
+      const upcoming = await rotationService.getUpcomingRotation(3);
+
+      expect(upcoming.map(entry => entry.user.id)).toEqual(['U2', 'U3', 'U1']);
+    });
+  });
+
+  describe('out of office', () => {
+    const always = [{ start: '2000-01-01', end: '2999-12-31' }];
+
+    it('should pass over an unavailable owner without changing state when read-only', async () => {
+      const state = createState({ config });
+      state.users[0]!.unavailable = always;
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      expect((await rotationService.getCurrentForumOwnerReadOnly()).id).toBe('U2');
+      expect((await store.loadRotationState()).deferredUserIds).toBeUndefined();
+    });
+
+    it('should defer an unavailable user when the rotation advances', async () => {
+      const state = createState({ config });
+      state.users[1]!.unavailable = always;
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      const owner = await rotationService.getCurrentForumOwner();
+
+      expect(owner.id).toBe('U3');
+      expect((await store.loadRotationState()).deferredUserIds).toEqual(['U2']);
+      expect((await rotationService.getUpcomingRotation(3)).map(entry => entry.user.id)).toEqual(['U3', 'U1', 'U3']);
+    });
+
+    it('should only let the owner who stands in for an unavailable presenter confirm', async () => {
+      const state = createState({ config });
+      state.users[0]!.unavailable = always;
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      await expect(rotationService.confirmPresenter('U1')).rejects.toThrow('<@U2> is presenting this period now');
+      expect(await rotationService.confirmPresenter('U2')).toMatchObject({ userId: 'U2' });
+      expect((await rotationService.getNotificationStatus()).confirmed).toBe(true);
+    });
+  });
+
+  describe('presenter reminders', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      const state = createState({ config });
+      state.lastRotationDate = '2025-01-17';
+      state.config.reminders = { meeting: { dayOfWeek: 3, time: '10:00' }, before: ['2d', '1h'] };
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should claim each due reminder once', async () => {
+      jest.setSystemTime(new Date('2025-01-20T10:30:00.000Z'));
+
+      const reminder = await rotationService.claimDueReminder();
+
+      expect(reminder).toMatchObject({ user: { id: 'U1' }, offset: '2d' });
+      expect(reminder?.meetingAt.toISOString()).toBe('2025-01-22T10:00:00.000Z');
+      expect(await rotationService.claimDueReminder()).toBeUndefined();
+
+      jest.setSystemTime(new Date('2025-01-22T09:00:00.000Z'));
+      expect((await rotationService.claimDueReminder())?.offset).toBe('1h');
+    });
+
+    it('should record a confirmation and skip a declining presenter', async () => {
+      jest.setSystemTime(new Date('2025-01-20T10:30:00.000Z'));
+
+      await expect(rotationService.confirmPresenter('U2')).rejects.toThrow('<@U1> is presenting this period now');
+      expect(await rotationService.confirmPresenter('U1')).toMatchObject({ period: '2025-01-17', userId: 'U1' });
+
+      const skip = await rotationService.declinePresenting('U1');
+      expect(skip.newUser.id).toBe('U2');
+    });
+  });
+
+  describe('notification claims', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should claim the notification once its time has passed, even after downtime', async () => {
+      // The period starting Friday 2025-01-17 notifies at 09:00
+      jest.setSystemTime(new Date('2025-01-17T08:59:00.000Z'));
+      expect(await rotationService.claimNotification({ waitForSchedule: true })).toBeUndefined();
+
+      jest.setSystemTime(new Date('2025-01-20T15:00:00.000Z'));
+      const periodInfo = await rotationService.claimNotification({ waitForSchedule: true });
+
+      expect(periodInfo?.startDate.toISOString()).toBe('2025-01-17T00:00:00.000Z');
+      expect((await store.loadRotationState()).notificationClaim).toEqual({ period: '2025-01-17', claimedAt: '2025-01-20T15:00:00.000Z' });
+      expect(await rotationService.claimNotification({ waitForSchedule: true })).toBeUndefined();
+
+      await rotationService.releaseNotification(periodInfo!);
+      expect(await rotationService.claimNotification({ waitForSchedule: true })).toBeDefined();
+    });
+
+    it('should never claim a period that was already notified', async () => {
+      jest.setSystemTime(new Date('2025-01-17T08:00:00.000Z'));
+      expect(await rotationService.claimNotification()).toBeDefined();
+      await rotationService.recordNotification('1737100000.000100', 'C1');
+
+      jest.setSystemTime(new Date('2025-01-18T08:00:00.000Z'));
+      expect(await rotationService.claimNotification()).toBeUndefined();
+      expect((await store.loadRotationState()).lastNotification).toMatchObject({ period: '2025-01-17', messageTs: '1737100000.000100' });
+    });
+
+    it('should let a claim whose sender died lapse', async () => {
+      jest.setSystemTime(new Date('2025-01-17T10:00:00.000Z'));
+      expect(await rotationService.claimNotification()).toBeDefined();
+
+      jest.setSystemTime(new Date('2025-01-17T10:05:00.000Z'));
+      expect(await rotationService.claimNotification()).toBeUndefined();
+
+      jest.setSystemTime(new Date('2025-01-17T10:10:00.000Z'));
+      expect(await rotationService.claimNotification()).toBeDefined();
+    });
+  });
+
+  describe('confirmation deadline', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+      const state = createState({ config });
+      state.config.confirmationDeadline = '24h';
+      store = new MemoryStorageService(state);
+      rotationService = new RotationService(store, 'UTC');
+
+      jest.setSystemTime(new Date('2025-01-20T10:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should offer the period to the next user once the deadline passes', async () => {
+      await rotationService.recordNotification('1737367200.000100', 'C1');
+
+      jest.setSystemTime(new Date('2025-01-21T09:00:00.000Z'));
+      expect(await rotationService.enforceConfirmationDeadline()).toBeUndefined();
+
+      jest.setSystemTime(new Date('2025-01-21T10:30:00.000Z'));
+      const fallback = await rotationService.enforceConfirmationDeadline();
+
+      expect(fallback).toMatchObject({
+        unconfirmedUser: { id: 'U1' },
+        newUser: { id: 'U2' },
+        notification: { messageTs: '1737367200.000100', channelId: 'C1' },
+      });
+      expect(await rotationService.getRotationHistory({ limit: 1 })).toMatchObject([
+        { action: 'unconfirmed', assignedUserId: 'U1', presenterId: 'U2' },
+      ]);
+
+      // The new presenter gets a full window of their own
+      expect(await rotationService.enforceConfirmationDeadline()).toBeUndefined();
+    });
+
+    it('should leave a confirmed presenter in place', async () => {
+      await rotationService.recordNotification('1737367200.000100', 'C1');
+      await rotationService.confirmPresenter('U1');
+
+      jest.setSystemTime(new Date('2025-01-22T10:00:00.000Z'));
+
+      expect(await rotationService.enforceConfirmationDeadline()).toBeUndefined();
+      expect((await rotationService.getCurrentForumOwnerReadOnly()).id).toBe('U1');
+    });
+
+    it('should store every timestamp as rotation timezone wall-clock, like lastRotationDate', async () => {
+      rotationService = new RotationService(store, 'America/New_York');
+
+      await rotationService.claimNotification();
+      await rotationService.recordNotification('1737367200.000100', 'C1');
+      await rotationService.confirmPresenter('U1');
+
+      const state = await store.loadRotationState();
+      expect(state.lastNotification?.sentAt).toBe('2025-01-20T05:00:00.000Z');
+      expect(state.confirmation?.confirmedAt).toBe('2025-01-20T05:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { StorageService } from '../src/services/StorageService';
+import { RotationStore } from '../src/types';
+import { createState } from './fixtures';
+
+const config = { schedule: { dayOfWeek: 5, time: '09:00' } };
+
+const backends: Array<[string, () => Promise<RotationStore>]> = [
+  ['MemoryStorageService', async () => new MemoryStorageService(createState({ config }))],
+  [
+    'StorageService',
+    async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rotation-store-'));
+      const usersFilePath = path.join(dir, 'users.json');
+      await fs.writeFile(usersFilePath, JSON.stringify(createState({ config })), 'utf-8');
+      return new StorageService(usersFilePath, path.join(dir, 'rotation-state.json'));
+    },
+  ],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let store: RotationStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('should persist saved state', async () => {
+    const state = await store.loadRotationState();
+    state.currentIndex = 2;
+    await store.saveRotationState(state);
+
+    expect((await store.loadRotationState()).currentIndex).toBe(2);
+    expect((await store.getCurrentUser()).id).toBe('U3');
+  });
+
+  it('should reject compare-and-set against a stale state', async () => {
+    const stale = await store.loadRotationState();
+    await store.updateRotationState(1, '2025-01-24');
+
+    const written = await store.compareAndSetRotationState(stale, { ...stale, currentIndex: 2 });
+
+    expect(written).toBe(false);
+    expect((await store.loadRotationState()).currentIndex).toBe(1);
+  });
+
+  it('should apply both of two concurrent mutations', async () => {
+    await Promise.all([store.advanceToNextUser('2025-01-24T09:00:00.000Z'), store.advanceToNextUser('2025-01-24T09:00:00.000Z')]);
+
+    const state = await store.loadRotationState();
+    expect(state.currentIndex).toBe(2);
+    expect(state.version).toBe(2);
+  });
+
+  it('should not write when the mutation opts out', async () => {
+    await store.mutateRotationState(state => {
+      state.currentIndex = 2;
+      return false;
+    });
+
+    const state = await store.loadRotationState();
+    expect(state.currentIndex).toBe(0);
+    expect(state.version).toBeUndefined();
+  });
+
+  it('should advance with wraparound', async () => {
+    await store.updateRotationState(2, '2025-01-24');
+
+    const next = await store.advanceToNextUser('2025-01-31T09:00:00.000Z');
+
+    expect(next.id).toBe('U1');
+    expect((await store.loadRotationState()).lastRotationDate).toBe('2025-01-31T09:00:00.000Z');
+  });
+
+  it('should add and remove users while keeping the current user', async () => {
+    await store.updateRotationState(1, '2025-01-24');
+    await store.addUser({ id: 'U4', startDate: '2025-02-01' });
+    await store.removeUser('U1');
+
+    const state = await store.loadRotationState();
+    expect(state.users.map(u => u.id)).toEqual(['U2', 'U3', 'U4']);
+    expect((await store.getCurrentUser()).id).toBe('U2');
+    await expect(store.addUser({ id: 'U2', startDate: '2025-02-01' })).rejects.toThrow(
+      'already exists'
+    );
+  });
+
+  it('should keep the current user when replacing the user list', async () => {
+    await store.updateRotationState(2, '2025-01-24');
+    await store.updateUserList([
+      { id: 'U3', startDate: '2025-01-17' },
+      { id: 'U1', startDate: '2025-01-17' },
+    ]);
+
+    expect((await store.getCurrentUser()).id).toBe('U3');
+  });
+
+  it('should append and return history in order', async () => {
+    await store.appendHistory({
+      timestamp: '2025-01-24T09:00:00.000Z',
+      period: '2025-01-24',
+      action: 'advance',
+      assignedUserId: 'U2',
+      presenterId: 'U2',
+    });
+    await store.appendHistory({
+      timestamp: '2025-01-25T09:00:00.000Z',
+      period: '2025-01-24',
+      action: 'skip',
+      assignedUserId: 'U2',
+      presenterId: 'U3',
+      actorId: 'U2',
+    });
+
+    expect((await store.getHistory()).map(entry => entry.action)).toEqual(['advance', 'skip']);
+    expect((await store.getHistory(1)).map(entry => entry.presenterId)).toEqual(['U3']);
+  });
+
+  it('should keep one article per period, oldest first', async () => {
+    const article = (period: string, title: string) => ({
+      period,
+      userId: 'U1',
+      title,
+      url: 'https://example.com',
+      submittedAt: `${period}T09:00:00.000Z`,
+      submittedBy: 'U1',
+    });
+
+    await store.saveArticle(article('2025-01-24', 'Draft'));
+    await store.saveArticle(article('2025-01-17', 'Earlier'));
+    await store.saveArticle(article('2025-01-24', 'Final'));
+
+    expect((await store.getArticles()).map(saved => saved.title)).toEqual(['Earlier', 'Final']);
+  });
+});
@@ -0,0 +1,61 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { RotationRegistry } from '../src/services/RotationRegistry';
+import { SlackInteractionHandler } from '../src/services/SlackInteractionHandler';
+import { signRequest } from '../src/utils/slackSignature';
+import { createDefinition, createState } from './fixtures';
+
+describe('SlackInteractionHandler', () => {
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    const registry = new RotationRegistry(
+      [createDefinition('staff-doc', 'C1')],
+      'staff-doc',
+      {
+        botToken: 'xoxb-test',
+        timezone: 'UTC',
+        createStore: () => new MemoryStorageService(createState()),
+      }
+    );
+    const handler = new SlackInteractionHandler(['new-secret', 'old-secret'], 'xoxb-test', registry);
+
+    server = handler.getReceiver().app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/slack/events`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function post(body: string, secret?: string, timestamp = String(Math.floor(Date.now() / 1000))): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (secret) {
+      headers['X-Slack-Request-Timestamp'] = timestamp;
+      headers['X-Slack-Signature'] = signRequest(body, timestamp, secret);
+    }
+    return fetch(url, { method: 'POST', headers, body });
+  }
+
+  it('should verify requests against either signing secret before Bolt handles them', async () => {
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+
+    const response = await post(body, 'old-secret');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ challenge: 'abc' });
+  });
+
+  it('should reject unsigned, wrongly signed and replayed requests', async () => {
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    expect((await post(body)).status).toBe(401);
+    expect((await post(body, 'other-secret')).status).toBe(401);
+    expect((await post(body, 'new-secret', timestamp)).status).toBe(200);
+    expect((await post(body, 'new-secret', timestamp)).status).toBe(401);
+  });
+});
@@ -0,0 +1,129 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MemoryStorageService } from '../src/services/MemoryStorageService';
+import { RotationRegistry } from '../src/services/RotationRegistry';
+import { SlackInteractionService } from '../src/services/SlackInteractionService';
+import { createDefinition, createState } from './fixtures';
+
+describe('SlackInteractionService', () => {
+  let registry: RotationRegistry;
+  let interactions: SlackInteractionService;
+
+  beforeEach(() => {
+    registry = new RotationRegistry([createDefinition('staff-doc', 'C1'), createDefinition('eng-review', 'C2')], 'staff-doc', {
+      botToken: 'xoxb-test',
+      timezone: 'UTC',
+      createStore: () => new MemoryStorageService(createState({ userIds: ['U1', 'U2'], config: { admins: ['U9'] } })),
+    });
+    interactions = new SlackInteractionService(registry);
+  });
+
+  it('should answer URL verification', async () => {
+    expect(await interactions.dispatch({ type: 'url_verification', challenge: 'abc' })).toEqual({ challenge: 'abc' });
+  });
+
+  it('should run slash commands from their form fields', async () => {
+    const form = { command: '/rotation', text: 'eng-review who', user_id: 'U9', channel_id: 'C1' };
+
+    expect(await interactions.dispatch(form)).toEqual({
+      response_type: 'ephemeral',
+      text: '📋 <@U1> is presenting this period.',
+      blocks: undefined,
+    });
+    expect(await interactions.dispatch({ ...form, command: '/unknown' })).toMatchObject({ text: '❌ Unknown command /unknown' });
+    expect(await interactions.dispatch({ ...form, command: '/skip-rotation', text: 'nope' })).toMatchObject({
+      text: 'Unknown rotation "nope". Known rotations: staff-doc, eng-review',
+    });
+  });
+
+  it('should post slash command responses to the response_url once acknowledged', async () => {
+    const received: unknown[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      await interactions.handleAcknowledged({
+        command: '/rotation',
+        text: 'eng-review who',
+        user_id: 'U9',
+        channel_id: 'C1',
+        response_url: `http://127.0.0.1:${port}/respond`,
+      });
+    } finally {
+      server.close();
+    }
+
+    expect(received).toEqual([{ response_type: 'ephemeral', text: '📋 <@U1> is presenting this period.' }]);
+  });
+
+  it('should refuse to handle a modal submission after acknowledging it', async () => {
+    await expect(interactions.handleAcknowledged({ type: 'view_submission', view: {} })).rejects.toThrow(
+      'Modal submissions must be handled with startViewSubmission'
+    );
+  });
+
+  it('should keep the article form open with the error for an invalid submission', async () => {
+    const payload = {
+      type: 'view_submission',
+      user: { id: 'U1' },
+      view: {
+        callback_id: 'submit_article_modal',
+        private_metadata: JSON.stringify({ rotationId: 'eng-review' }),
+        state: { values: { article_title: { value: { value: '' } }, article_url: { value: { value: 'https://example.com' } } } },
+      },
+    };
+
+    expect(await interactions.dispatch(payload)).toEqual({
+      response_action: 'errors',
+      errors: { article_title: expect.any(String) },
+    });
+    expect(await registry.getContext('eng-review').store.getArticles()).toEqual([]);
+  });
+
+  it('should only answer reminder buttons from the current period', async () => {
+    const { store, slackService } = registry.getContext();
+    const ephemeral: string[] = [];
+    slackService.sendEphemeralMessage = async (userId, text, channelId) => {
+      ephemeral.push(`${channelId} ${userId}: ${text}`);
+      return { success: true };
+    };
+    const before = await store.loadRotationState();
+    const value = JSON.stringify({ rotationId: 'staff-doc', userId: 'U1', period: '2025-01-17' });
+
+    for (const actionId of ['reminder_confirm', 'reminder_decline']) {
+      await interactions.dispatch({
+        type: 'block_actions',
+        user: { id: 'U1' },
+        channel: { id: 'D1' },
+        message: { ts: '1737104400.000100' },
+        actions: [{ action_id: actionId, value }],
+      });
+    }
+
+    expect(ephemeral).toEqual([
+      "D1 U1: ⌛ That reminder was for an earlier period, so it can't confirm or skip you now.",
+      "D1 U1: ⌛ That reminder was for an earlier period, so it can't confirm or skip you now.",
+    ]);
+    expect(await store.loadRotationState()).toEqual(before);
+  });
+
+  it('should ignore buttons from unknown rotations and unknown payloads', async () => {
+    const payload = {
+      type: 'block_actions',
+      user: { id: 'U1' },
+      actions: [{ action_id: 'skip_rotation', value: JSON.stringify({ rotationId: 'gone', currentUserId: 'U1', timestamp: 1 }) }],
+    };
+
+    expect(await interactions.dispatch(payload)).toBeUndefined();
+    expect(await interactions.dispatch({ type: 'event_callback', event: { type: 'app_mention' } })).toBeUndefined();
+    expect((await registry.getContext().store.loadRotationState()).currentIndex).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+import { SlackReplayCache, signRequest, verifySlackRequest } from '../src/utils/slackSignature';
+
+const now = Date.UTC(2025, 0, 20, 9, 0, 0);
+const timestamp = String(now / 1000);
+const body = 'payload=%7B%22type%22%3A%22block_actions%22%7D';
+
+describe('verifySlackRequest', () => {
+  it('should accept a request signed with any active secret', () => {
+    expect(verifySlackRequest(body, signRequest(body, timestamp, 'new-secret'), timestamp, ['new-secret', 'old-secret'], now)).toEqual({ valid: true });
+    expect(verifySlackRequest(body, signRequest(body, timestamp, 'old-secret'), timestamp, ['new-secret', 'old-secret'], now)).toEqual({ valid: true });
+  });
+
+  it('should reject unsigned, tampered and stale requests', () => {
+    const signature = signRequest(body, timestamp, 'secret');
+
+    expect(verifySlackRequest(body, undefined, timestamp, ['secret'], now)).toEqual({ valid: false, reason: 'Missing signature headers' });
+    expect(verifySlackRequest(body, signature, null, ['secret'], now)).toEqual({ valid: false, reason: 'Missing signature headers' });
+    expect(verifySlackRequest(`${body}&x=1`, signature, timestamp, ['secret'], now)).toEqual({ valid: false, reason: 'Signature does not match' });
+    expect(verifySlackRequest(body, 'v0=short', timestamp, ['secret'], now)).toEqual({ valid: false, reason: 'Signature does not match' });
+    expect(verifySlackRequest(body, signature, timestamp, ['secret'], now + 301_000)).toEqual({ valid: false, reason: 'Timestamp is 301s from now' });
+    expect(verifySlackRequest(body, signature, '12e9', ['secret'], now)).toEqual({ valid: false, reason: 'Malformed timestamp' });
+  });
+
+  it('should reject every request when no secret is configured', () => {
+    expect(verifySlackRequest(body, signRequest(body, timestamp, ''), timestamp, [''], now)).toEqual({
+      valid: false,
+      reason: 'No signing secret is configured',
+    });
+  });
+});
+
+describe('SlackReplayCache', () => {
+  it('should reject a signature it has seen until it expires', () => {
+    const cache = new SlackReplayCache();
+
+    expect(cache.checkAndRecord('v0=a', timestamp, now)).toBe(true);
+    expect(cache.checkAndRecord('v0=a', timestamp, now + 60_000)).toBe(false);
+    expect(cache.checkAndRecord('v0=b', timestamp, now + 60_000)).toBe(true);
+    // By then the timestamp check rejects the request anyway
+    expect(cache.checkAndRecord('v0=a', timestamp, now + 301_000)).toBe(true);
+  });
+});